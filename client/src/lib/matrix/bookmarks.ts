@@ -0,0 +1,108 @@
+/**
+ * Saved Messages (bookmarks)
+ *
+ * Kept in the user's own account data under a custom event type, so they sync
+ * to every device and nobody else sees them — unlike marking messages with a
+ * reaction, which shows up in the room's counts. The bookmarks store mirrors
+ * the account data; edits write the whole list back.
+ *
+ * Account data isn't encrypted, so bookmarks in encrypted rooms store no
+ * preview: the saved view fetches and decrypts the message instead.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient, bookmarks, type Bookmark, type Message } from '$lib/stores/matrix';
+import { getMessagePreview } from './messages';
+
+const BOOKMARKS_EVENT = 'chat.darkroot.bookmarks';
+
+/** Previews resolved for encrypted-room bookmarks: eventId → preview (null if unavailable) */
+const resolvedPreviews = new Map<string, string | null>();
+
+/** Bookmarks from account data content, skipping malformed entries */
+function parseBookmarks(content: any): Bookmark[] {
+	const list = Array.isArray(content?.bookmarks) ? content.bookmarks : [];
+	return list.filter((b: any): b is Bookmark =>
+		typeof b?.roomId === 'string' && typeof b?.eventId === 'string' && typeof b?.sender === 'string'
+	);
+}
+
+async function updateBookmarks(update: (list: Bookmark[]) => Bookmark[]): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const list = update(get(bookmarks));
+	await client.setAccountData(BOOKMARKS_EVENT, { bookmarks: list });
+	// Don't wait for the sync to echo it back
+	bookmarks.set(list);
+}
+
+/** Save a message (moved to the top if it was already saved) */
+export async function addBookmark(roomId: string, message: Message): Promise<void> {
+	const client = get(matrixClient);
+	const encrypted = !!client?.getRoom(roomId)?.hasEncryptionStateEvent();
+
+	const bookmark: Bookmark = {
+		roomId,
+		eventId: message.id,
+		sender: message.sender,
+		ts: message.timestamp,
+		savedAt: Date.now(),
+		...(encrypted ? {} : { preview: getMessagePreview(message.content, 200) }),
+	};
+	await updateBookmarks(list => {
+		const existing = list.find(b => b.eventId === message.id);
+		if (existing?.note) bookmark.note = existing.note;
+		return [bookmark, ...list.filter(b => b.eventId !== message.id)];
+	});
+}
+
+export async function removeBookmark(eventId: string): Promise<void> {
+	await updateBookmarks(list => list.filter(b => b.eventId !== eventId));
+}
+
+/** Set or (with an empty string) clear a bookmark's note */
+export async function setBookmarkNote(eventId: string, note: string): Promise<void> {
+	const trimmed = note.trim();
+	await updateBookmarks(list => list.map(b => b.eventId === eventId ? { ...b, note: trimmed || undefined } : b));
+}
+
+/**
+ * Preview text for a bookmark: the stored one, or for encrypted rooms the
+ * message itself, found in the timeline or fetched and decrypted once.
+ */
+export async function getBookmarkPreview(bookmark: Bookmark): Promise<string | null> {
+	if (bookmark.preview !== undefined) return bookmark.preview;
+	if (resolvedPreviews.has(bookmark.eventId)) return resolvedPreviews.get(bookmark.eventId) ?? null;
+
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	let preview: string | null = null;
+	try {
+		let event = client.getRoom(bookmark.roomId)?.findEventById(bookmark.eventId) ?? null;
+		if (!event) {
+			event = new sdk.MatrixEvent(await client.fetchRoomEvent(bookmark.roomId, bookmark.eventId));
+			await client.decryptEventIfNeeded(event);
+		}
+		preview = event.isRedacted() ? null : getMessagePreview(event.getContent(), 200);
+	} catch (error) {
+		console.warn('Bookmarked event unavailable:', bookmark.eventId, error);
+	}
+	resolvedPreviews.set(bookmark.eventId, preview);
+	return preview;
+}
+
+/**
+ * Set up bookmark listeners: load the list from the initial sync and follow
+ * changes made on other devices.
+ */
+export function setupBookmarkListeners(client: sdk.MatrixClient): void {
+	client.on(sdk.ClientEvent.AccountData, (event: sdk.MatrixEvent) => {
+		if (event.getType() !== BOOKMARKS_EVENT) return;
+		bookmarks.set(parseBookmarks(event.getContent()));
+	});
+
+	console.log('Bookmark listeners set up');
+}
@@ -6,11 +6,20 @@
 
 import * as sdk from 'matrix-js-sdk';
 import { get } from 'svelte/store';
-import { matrixClient, isLoggedIn, currentUser, syncState } from '$lib/stores/matrix';
+import { matrixClient, isLoggedIn, currentUser, syncState, bookmarks, recentEmoji, currentSpaceId } from '$lib/stores/matrix';
 import { setupRoomListeners } from './rooms';
 import { setupMessageListeners } from './messages';
 import { setupTypingListeners } from './typing';
 import { setupPresenceListeners } from './presence';
+import { restoreThreadReads } from './threads';
+import { setupOutboxListeners, restoreOutbox, clearOutbox } from './outbox';
+import { restoreDrafts, clearDrafts } from './drafts';
+import { restorePreferences } from './preferences';
+import { setupPinListeners } from './pins';
+import { setupBookmarkListeners } from './bookmarks';
+import { setupEmoteListeners } from './emotes';
+import { setupRecentEmojiListeners } from './emoji';
+import { setupSpaceListeners } from './spaces';
 
 const STORAGE_PREFIX = 'darkroot_';
 
@@ -65,6 +74,9 @@ export function createClient(homeserverUrl: string, accessToken?: string, userId
 		// Required for redactEvent() — default 'chronological' mode throws when
 		// trying to access pending events during redaction.
 		pendingEventOrdering: sdk.PendingEventOrdering.Detached,
+		// Required for getEventTimeline() — opening a permalink loads the event's
+		// context (/context) as a separate timeline window.
+		timelineSupport: true,
 	});
 
 	// Set up event listeners
@@ -162,6 +174,16 @@ export async function startClient(client: sdk.MatrixClient): Promise<void> {
 	setupMessageListeners(client);
 	setupTypingListeners(client);
 	setupPresenceListeners(client);
+	setupPinListeners(client);
+	setupBookmarkListeners(client);
+	setupEmoteListeners(client);
+	setupRecentEmojiListeners(client);
+	setupSpaceListeners(client);
+	setupOutboxListeners(client);
+	restoreThreadReads();
+	restoreDrafts();
+	restorePreferences();
+	await restoreOutbox();
 
 	// Start syncing
 	await client.startClient({ initialSyncLimit: 20 });
@@ -183,14 +205,19 @@ export async function logout(): Promise<void> {
 		client.stopClient();
 	}
 
-	// Clear stored credentials
+	// Clear stored credentials, drafts and anything still waiting to be sent
 	clearCredentials();
+	clearDrafts();
+	await clearOutbox();
 
 	// Reset stores
 	matrixClient.set(null);
 	isLoggedIn.set(false);
 	currentUser.set(null);
 	syncState.set('PREPARED');
+	bookmarks.set([]);
+	recentEmoji.set([]);
+	currentSpaceId.set(null);
 }
 
 /**
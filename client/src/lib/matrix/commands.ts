@@ -0,0 +1,221 @@
+/**
+ * Slash Commands
+ *
+ * The composer checks every message with parseCommand() before sending it.
+ * Commands live in a registry so features can add their own with
+ * registerCommand(); the built-ins below cover the room admin actions that
+ * would otherwise need RoomSettingsModal.
+ *
+ * A command reports success by returning an optional feedback line for the
+ * composer, and failure by throwing — the error message is shown inline.
+ * Start a message with `//` to send a literal leading slash.
+ */
+
+import { get } from 'svelte/store';
+import { matrixClient } from '$lib/stores/matrix';
+import { sendMessage, type SendOptions } from './messages';
+import { setRoomTopic, inviteUser, kickUser, joinRoom, leaveRoom, setCurrentRoom } from './rooms';
+
+export interface CommandContext {
+	roomId: string;
+	/** Everything after the command name, trimmed */
+	args: string;
+	/** Reply target and mentions from the composer, for commands that send a message */
+	sendOptions: SendOptions;
+}
+
+export interface SlashCommand {
+	name: string;
+	/** Argument hint for the inline help, e.g. "<user-id> [reason]" */
+	usage?: string;
+	description: string;
+	/** Resolve with a feedback line for the composer (optional); throw to report an error */
+	run(ctx: CommandContext): Promise<string | void>;
+}
+
+const registry = new Map<string, SlashCommand>();
+
+/** Add (or replace) a command in the registry */
+export function registerCommand(command: SlashCommand): void {
+	registry.set(command.name, command);
+}
+
+export function getCommand(name: string): SlashCommand | undefined {
+	return registry.get(name.toLowerCase());
+}
+
+/** Registered commands whose name starts with the prefix, alphabetical */
+export function findCommands(prefix = ''): SlashCommand[] {
+	const p = prefix.toLowerCase();
+	return [...registry.values()]
+		.filter(c => c.name.startsWith(p))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Split composer text into a command name and its arguments.
+ * Returns null for ordinary messages, including `//escaped` ones and paths
+ * like `/usr/bin` (the name must be followed by whitespace or the end).
+ */
+export function parseCommand(text: string): { name: string; args: string } | null {
+	const match = /^\/(\w+)(?:\s+([\s\S]*))?$/.exec(text.trim());
+	if (!match) return null;
+	return { name: match[1].toLowerCase(), args: (match[2] || '').trim() };
+}
+
+/** Run a parsed command. Throws for unknown commands and command errors. */
+export async function runCommand(
+	parsed: { name: string; args: string },
+	roomId: string,
+	sendOptions: SendOptions = {}
+): Promise<string | void> {
+	const command = getCommand(parsed.name);
+	if (!command) {
+		throw new Error(`Unknown command /${parsed.name} — type /help for the list, or start with // to send it as text`);
+	}
+	return command.run({ roomId, args: parsed.args, sendOptions });
+}
+
+/** Throw a usage error unless the command got arguments */
+function requireArgs(ctx: CommandContext, name: string): string {
+	if (!ctx.args) {
+		const usage = getCommand(name)?.usage ?? '';
+		throw new Error(`Usage: /${name} ${usage}`.trim());
+	}
+	return ctx.args;
+}
+
+/**
+ * Read the target user from the start of the arguments: either a full user ID
+ * (@user:server) or a member picked from the @-autocomplete (inserted as their
+ * display name). Returns the user ID and whatever text follows it.
+ */
+function requireUserArg(ctx: CommandContext, name: string): { userId: string; rest: string } {
+	const args = requireArgs(ctx, name);
+
+	const picked = ctx.sendOptions.mentions?.find(m => args.startsWith(m.label));
+	if (picked) return { userId: picked.userId, rest: args.slice(picked.label.length).trim() };
+
+	const [first, ...rest] = args.split(/\s+/);
+	if (!/^@[^:\s]+:\S+$/.test(first)) {
+		throw new Error(`/${name} needs a full user ID like @name:server`);
+	}
+	return { userId: first, rest: rest.join(' ') };
+}
+
+// ── Built-in commands ──────────────────────────────────────────────────
+
+registerCommand({
+	name: 'me',
+	usage: '<action>',
+	description: 'Send an action, e.g. /me praises the sun',
+	async run(ctx) {
+		await sendMessage(ctx.roomId, requireArgs(ctx, 'me'), { ...ctx.sendOptions, msgtype: 'm.emote' });
+	},
+});
+
+registerCommand({
+	name: 'shrug',
+	usage: '[message]',
+	description: 'Append ¯\\_(ツ)_/¯ to a message',
+	async run(ctx) {
+		// Plain, or markdown eats the backslash and underscores
+		const text = ctx.args ? `${ctx.args} ¯\\_(ツ)_/¯` : '¯\\_(ツ)_/¯';
+		await sendMessage(ctx.roomId, text, { ...ctx.sendOptions, plain: true });
+	},
+});
+
+registerCommand({
+	name: 'plain',
+	usage: '<message>',
+	description: 'Send a message as plain text, without markdown',
+	async run(ctx) {
+		await sendMessage(ctx.roomId, requireArgs(ctx, 'plain'), { ...ctx.sendOptions, plain: true });
+	},
+});
+
+registerCommand({
+	name: 'topic',
+	usage: '[topic]',
+	description: 'Set the room topic, or show it when given nothing',
+	async run(ctx) {
+		if (!ctx.args) {
+			const room = get(matrixClient)?.getRoom(ctx.roomId);
+			const topic = room?.currentState.getStateEvents('m.room.topic', '')?.getContent()?.topic;
+			return topic ? `Topic: ${topic}` : 'This room has no topic';
+		}
+		await setRoomTopic(ctx.roomId, ctx.args);
+		return 'Topic updated';
+	},
+});
+
+registerCommand({
+	name: 'invite',
+	usage: '<user-id>',
+	description: 'Invite a user to this room',
+	async run(ctx) {
+		const { userId } = requireUserArg(ctx, 'invite');
+		await inviteUser(ctx.roomId, userId);
+		return `Invited ${userId}`;
+	},
+});
+
+registerCommand({
+	name: 'kick',
+	usage: '<user-id> [reason]',
+	description: 'Remove a user from this room',
+	async run(ctx) {
+		const { userId, rest: reason } = requireUserArg(ctx, 'kick');
+		await kickUser(ctx.roomId, userId, reason || undefined);
+		return `Kicked ${userId}`;
+	},
+});
+
+registerCommand({
+	name: 'join',
+	usage: '<#alias:server | !room-id>',
+	description: 'Join a room and switch to it',
+	async run(ctx) {
+		const target = requireArgs(ctx, 'join');
+		if (!/^[#!]\S+:\S+$/.test(target)) {
+			throw new Error('/join needs a room alias (#room:server) or ID (!id:server)');
+		}
+		const room = await joinRoom(target);
+		if (room) setCurrentRoom(room.roomId);
+	},
+});
+
+registerCommand({
+	name: 'leave',
+	description: 'Leave this room',
+	async run(ctx) {
+		await leaveRoom(ctx.roomId);
+	},
+});
+
+registerCommand({
+	name: 'nick',
+	usage: '<display name>',
+	description: 'Change your display name',
+	async run(ctx) {
+		const client = get(matrixClient);
+		if (!client) throw new Error('Matrix client not initialized');
+		const name = requireArgs(ctx, 'nick');
+		await client.setDisplayName(name);
+		return `You are now known as ${name}`;
+	},
+});
+
+registerCommand({
+	name: 'help',
+	usage: '[command]',
+	description: 'List commands, or show help for one',
+	async run(ctx) {
+		if (ctx.args) {
+			const command = getCommand(ctx.args.replace(/^\//, ''));
+			if (!command) throw new Error(`Unknown command /${ctx.args}`);
+			return `/${command.name} ${command.usage ?? ''} — ${command.description}`;
+		}
+		return findCommands().map(c => `/${c.name}`).join('  ');
+	},
+});
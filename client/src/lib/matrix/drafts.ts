@@ -0,0 +1,98 @@
+/**
+ * Composer Drafts
+ *
+ * Whatever is typed into a room's composer — plus a pending reply or an inline
+ * edit in progress — is kept per room, so switching rooms or reloading doesn't
+ * lose it. RoomView saves the composer fields, MessageList saves the edit, and
+ * RoomList shows which rooms have a draft. Persisted in localStorage.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient, drafts, type ComposerDraft, type Message } from '$lib/stores/matrix';
+
+const DRAFTS_KEY = 'darkroot_drafts';
+
+function isEmpty(draft: ComposerDraft): boolean {
+	return !draft.text.trim() && !draft.replyToId && !draft.edit;
+}
+
+function persist(all: Record<string, ComposerDraft>): void {
+	try {
+		localStorage.setItem(DRAFTS_KEY, JSON.stringify(all));
+	} catch {
+		// Storage full or unavailable — drafts still work for this session
+	}
+}
+
+/**
+ * Restore drafts from localStorage.
+ * Called once when the client starts.
+ */
+export function restoreDrafts(): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		const stored = localStorage.getItem(DRAFTS_KEY);
+		drafts.set(stored ? JSON.parse(stored) : {});
+	} catch {
+		drafts.set({});
+	}
+}
+
+/**
+ * Merge changes into a room's draft. A draft left with no text, reply or edit
+ * is removed. Skips the write when nothing changed (this runs on every keystroke).
+ */
+export function saveDraft(roomId: string, changes: Partial<ComposerDraft>): void {
+	const all = get(drafts);
+	const current = all[roomId];
+	const next: ComposerDraft = { ...(current ?? { text: '' }), ...changes };
+
+	if (isEmpty(next)) {
+		if (!current) return;
+		const { [roomId]: _removed, ...rest } = all;
+		drafts.set(rest);
+		persist(rest);
+		return;
+	}
+
+	if (current && JSON.stringify(current) === JSON.stringify(next)) return;
+	const updated = { ...all, [roomId]: next };
+	drafts.set(updated);
+	persist(updated);
+}
+
+/** Forget all drafts (on logout — they belong to the account that wrote them) */
+export function clearDrafts(): void {
+	drafts.set({});
+	if (typeof window !== 'undefined') localStorage.removeItem(DRAFTS_KEY);
+}
+
+/**
+ * Look up a draft's reply target. Uses the loaded timeline when it can,
+ * otherwise fetches the event. Returns null if it's gone.
+ */
+export async function resolveReplyTarget(roomId: string, eventId: string): Promise<Message | null> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	let event = client.getRoom(roomId)?.findEventById(eventId) ?? null;
+	if (!event) {
+		try {
+			event = new sdk.MatrixEvent(await client.fetchRoomEvent(roomId, eventId));
+		} catch (error) {
+			console.warn('Draft reply target unavailable:', eventId, error);
+			return null;
+		}
+	}
+	if (event.isRedacted()) return null;
+
+	return {
+		id: eventId,
+		sender: event.getSender() || '',
+		content: event.getContent(),
+		timestamp: event.getTs(),
+		event,
+	};
+}
@@ -0,0 +1,163 @@
+/**
+ * Unicode Emoji
+ *
+ * The emoji data (emojibase, with GitHub-style shortcodes like `:fire:`) is
+ * bundled with the app and imported on first use, so it's its own chunk —
+ * precached by the service worker like the rest of the build, and the picker
+ * works offline.
+ *
+ * Recently used emoji are kept in account data under Element's
+ * io.element.recent_emoji type (`{ recent_emoji: [[emoji, count], ...] }`,
+ * most recent first), so they follow the user between devices and clients.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import type { CompactEmoji, ShortcodesDataset } from 'emojibase';
+import { matrixClient, recentEmoji } from '$lib/stores/matrix';
+
+const RECENT_EMOJI_EVENT = 'io.element.recent_emoji';
+const MAX_RECENT = 32;
+const MAX_RESULTS = 120;
+
+/** Emojibase group numbers; group 2 ("component": bare skin tones, hair) isn't pickable */
+export const EMOJI_GROUPS = [
+	{ id: 0, label: 'Smileys & emotion', icon: '😀' },
+	{ id: 1, label: 'People & body',     icon: '👋' },
+	{ id: 3, label: 'Animals & nature',  icon: '🐻' },
+	{ id: 4, label: 'Food & drink',      icon: '🍔' },
+	{ id: 5, label: 'Travel & places',   icon: '🚗' },
+	{ id: 6, label: 'Activities',        icon: '⚽' },
+	{ id: 7, label: 'Objects',           icon: '💡' },
+	{ id: 8, label: 'Symbols',           icon: '❤️' },
+	{ id: 9, label: 'Flags',             icon: '🏁' },
+] as const;
+
+/** Preference values 0–5 — the default yellow, then light to dark */
+export const SKIN_TONES = [
+	{ label: 'Default', swatch: '✋' },
+	{ label: 'Light', swatch: '✋🏻' },
+	{ label: 'Medium-light', swatch: '✋🏼' },
+	{ label: 'Medium', swatch: '✋🏽' },
+	{ label: 'Medium-dark', swatch: '✋🏾' },
+	{ label: 'Dark', swatch: '✋🏿' },
+] as const;
+
+/** Fitzpatrick modifiers, in skin tone order */
+const TONE_MODIFIERS = ['1F3FB', '1F3FC', '1F3FD', '1F3FE', '1F3FF'];
+
+export interface Emoji {
+	unicode: string;
+	label: string;
+	group: number;
+	tags: string[];
+	/** Without colons, e.g. 'fire' */
+	shortcodes: string[];
+	/** The emoji in skin tones 1–5, for emoji that have them */
+	skins?: string[];
+}
+
+let emojiData: Promise<Emoji[]> | null = null;
+
+/** Variants in tones 1–5: the skin whose modifiers are all that tone (pair emoji also list mixed tones) */
+function skinVariants(emoji: CompactEmoji): string[] | undefined {
+	if (!emoji.skins) return undefined;
+	const variants = TONE_MODIFIERS.map(modifier => emoji.skins!.find(skin =>
+		skin.hexcode.split('-').filter(part => TONE_MODIFIERS.includes(part)).every(part => part === modifier)
+	)?.unicode);
+	return variants.every(Boolean) ? variants as string[] : undefined;
+}
+
+function toEmoji(emoji: CompactEmoji, shortcodes: ShortcodesDataset): Emoji {
+	const codes = shortcodes[emoji.hexcode] ?? [];
+	return {
+		unicode: emoji.unicode,
+		label: emoji.label,
+		group: emoji.group!,
+		tags: emoji.tags ?? [],
+		shortcodes: Array.isArray(codes) ? codes : [codes],
+		skins: skinVariants(emoji),
+	};
+}
+
+/** All pickable emoji in display order, loaded once (the data is a separate chunk) */
+export function loadEmoji(): Promise<Emoji[]> {
+	emojiData ??= Promise.all([
+		import('emojibase-data/en/compact.json'),
+		import('emojibase-data/en/shortcodes/github.json'),
+	]).then(([{ default: data }, { default: shortcodes }]) =>
+		data
+			.filter(emoji => emoji.group !== undefined && emoji.group !== 2)
+			.map(emoji => toEmoji(emoji, shortcodes))
+	).catch(error => {
+		emojiData = null; // Let the next open retry
+		throw error;
+	});
+	return emojiData;
+}
+
+/** The emoji in a skin tone (0 or no variants: unchanged) */
+export function withSkinTone(emoji: Emoji, tone: number): string {
+	return (tone > 0 && emoji.skins?.[tone - 1]) || emoji.unicode;
+}
+
+/**
+ * Search by shortcode (`fire` or `:fire:`), name and keywords. Shortcode
+ * matches come first, then names starting with the query, then the rest.
+ */
+export function searchEmoji(all: Emoji[], query: string): Emoji[] {
+	const q = query.trim().toLowerCase().replace(/^:|:$/g, '');
+	if (!q) return [];
+
+	const rank = (emoji: Emoji): number => {
+		if (emoji.shortcodes.includes(q)) return 0;
+		if (emoji.shortcodes.some(code => code.startsWith(q))) return 1;
+		const label = emoji.label.toLowerCase();
+		if (label.startsWith(q)) return 2;
+		if (label.includes(q) || emoji.shortcodes.some(code => code.includes(q))) return 3;
+		if (emoji.tags.some(tag => tag.startsWith(q))) return 4;
+		return -1;
+	};
+
+	return all
+		.map(emoji => ({ emoji, rank: rank(emoji) }))
+		.filter(match => match.rank >= 0)
+		.sort((a, b) => a.rank - b.rank) // stable, so display order within a rank
+		.slice(0, MAX_RESULTS)
+		.map(match => match.emoji);
+}
+
+/** [emoji, count] pairs from account data content, skipping malformed entries */
+function parseRecent(content: any): [string, number][] {
+	const list = Array.isArray(content?.recent_emoji) ? content.recent_emoji : [];
+	return list.filter((entry: any): entry is [string, number] =>
+		Array.isArray(entry) && typeof entry[0] === 'string' && entry[0].length > 0
+	).map(([emoji, count]: [string, unknown]) => [emoji, typeof count === 'number' ? count : 1]);
+}
+
+/** Move an emoji to the front of the recents (counting its uses, as Element does) */
+export async function addRecentEmoji(emoji: string): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const recent = parseRecent(client.getAccountData(RECENT_EMOJI_EVENT)?.getContent());
+	const count = recent.find(([e]) => e === emoji)?.[1] ?? 0;
+	const next = [[emoji, count + 1] as [string, number], ...recent.filter(([e]) => e !== emoji)].slice(0, MAX_RECENT);
+
+	// Show it straight away, without waiting for the sync to echo it back
+	recentEmoji.set(next.map(([e]) => e));
+	await client.setAccountData(RECENT_EMOJI_EVENT, { recent_emoji: next });
+}
+
+/**
+ * Set up recent emoji listeners: load the list from the initial sync and
+ * follow picks made on other devices.
+ */
+export function setupRecentEmojiListeners(client: sdk.MatrixClient): void {
+	client.on(sdk.ClientEvent.AccountData, (event: sdk.MatrixEvent) => {
+		if (event.getType() !== RECENT_EMOJI_EVENT) return;
+		recentEmoji.set(parseRecent(event.getContent()).map(([emoji]) => emoji));
+	});
+
+	console.log('Recent emoji listeners set up');
+}
@@ -0,0 +1,203 @@
+/**
+ * Custom Emoji Image Packs (MSC2545)
+ *
+ * Packs come from three places, all with the same content shape
+ * (`{ images: { shortcode: { url, body?, usage? } }, pack: { display_name, ... } }`):
+ *   - `im.ponies.room_emotes` state events — a room's packs, one per state key
+ *   - `im.ponies.user_emotes` account data — the user's own pack, usable everywhere
+ *   - `im.ponies.emote_rooms` account data — room packs the user enabled globally
+ *
+ * The imagePacks store holds the packs usable in the current room. Images are
+ * mxc URLs, so they're shown through the authenticated media fetch.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient, currentRoomId, imagePacks, type ImagePack, type PackImage } from '$lib/stores/matrix';
+import { getRoomName } from './rooms';
+
+const ROOM_EMOTES = 'im.ponies.room_emotes';
+const USER_EMOTES = 'im.ponies.user_emotes';
+const EMOTE_ROOMS = 'im.ponies.emote_rooms';
+
+const ALLOWED_EMOJI_TYPES = new Set(['image/png', 'image/gif', 'image/webp', 'image/jpeg']);
+const MAX_EMOJI_SIZE = 1024 * 1024; // 1 MB
+
+/** Shortcodes go between colons, so no colons or whitespace */
+const SHORTCODE_PATTERN = /^[\w+-]{2,32}$/;
+
+/** Parse pack content, or null if it has no usable images */
+function parsePack(content: any, id: string, fallbackName: string, extra: Partial<ImagePack> = {}): ImagePack | null {
+	const packUsage: string[] = Array.isArray(content?.pack?.usage) ? content.pack.usage : [];
+	const images: PackImage[] = [];
+	for (const [shortcode, image] of Object.entries<any>(content?.images ?? {})) {
+		if (typeof image?.url !== 'string' || !image.url.startsWith('mxc://')) continue;
+		const usage: string[] = Array.isArray(image.usage) && image.usage.length ? image.usage : packUsage;
+		images.push({
+			shortcode,
+			url: image.url,
+			body: typeof image.body === 'string' ? image.body : undefined,
+			usage: usage.length ? usage : ['emoticon', 'sticker'],
+		});
+	}
+	if (images.length === 0) return null;
+
+	return {
+		id,
+		name: content?.pack?.display_name || fallbackName,
+		avatarUrl: content?.pack?.avatar_url,
+		images,
+		...extra,
+	};
+}
+
+/** A room's packs, one per im.ponies.room_emotes state key */
+export function getRoomPacks(room: sdk.Room): ImagePack[] {
+	return room.currentState.getStateEvents(ROOM_EMOTES)
+		.map(event => parsePack(
+			event.getContent(),
+			`${room.roomId}/${event.getStateKey()}`,
+			getRoomName(room),
+			{ roomId: room.roomId, stateKey: event.getStateKey() ?? '' }
+		))
+		.filter((pack): pack is ImagePack => !!pack);
+}
+
+/** The user's packs (their own, plus room packs enabled everywhere) followed by the room's */
+function collectPacks(client: sdk.MatrixClient, room: sdk.Room | null): ImagePack[] {
+	const packs: ImagePack[] = [];
+	const userPack = parsePack(client.getAccountData(USER_EMOTES)?.getContent(), 'user', 'My emoji');
+	if (userPack) packs.push(userPack);
+
+	const enabled = client.getAccountData(EMOTE_ROOMS)?.getContent()?.rooms ?? {};
+	for (const [roomId, stateKeys] of Object.entries<any>(enabled)) {
+		const packRoom = client.getRoom(roomId);
+		if (!packRoom || packRoom === room) continue;
+		const keys = Object.keys(stateKeys ?? {});
+		packs.push(...getRoomPacks(packRoom).filter(pack => keys.includes(pack.stateKey ?? '')));
+	}
+
+	if (room) packs.push(...getRoomPacks(room));
+	return packs;
+}
+
+/** Rebuild the imagePacks store for a room (null: just the user's packs) */
+export function refreshImagePacks(roomId: string | null): void {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	imagePacks.set(collectPacks(client, roomId ? client.getRoom(roomId) : null));
+}
+
+/** Pack images usable as reactions/inline emoji, first pack wins on duplicate shortcodes */
+export function getPackEmoticons(packs: ImagePack[]): PackImage[] {
+	const seen = new Set<string>();
+	const emoticons: PackImage[] = [];
+	for (const pack of packs) {
+		for (const image of pack.images) {
+			if (!image.usage.includes('emoticon') || seen.has(image.shortcode)) continue;
+			seen.add(image.shortcode);
+			emoticons.push(image);
+		}
+	}
+	return emoticons;
+}
+
+/** Find a pack image by its mxc URL (reaction keys for custom emoji are the URL) */
+export function findPackImage(url: string): PackImage | undefined {
+	for (const pack of get(imagePacks)) {
+		const image = pack.images.find(i => i.url === url);
+		if (image) return image;
+	}
+	return undefined;
+}
+
+/** Whether the user's power level allows changing the room's packs */
+export function canEditRoomPack(room: sdk.Room, userId: string): boolean {
+	return room.currentState.maySendStateEvent(ROOM_EMOTES, userId);
+}
+
+/** Raw content of one of a room's packs (empty when it doesn't exist yet) */
+function getPackContent(room: sdk.Room, stateKey: string): any {
+	return room.currentState.getStateEvents(ROOM_EMOTES, stateKey)?.getContent() ?? {};
+}
+
+/** Pixel size of an image file, for the image's info (best-effort) */
+async function getImageSize(file: File): Promise<{ w: number; h: number } | null> {
+	try {
+		const bitmap = await createImageBitmap(file);
+		const size = { w: bitmap.width, h: bitmap.height };
+		bitmap.close();
+		return size;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Upload an image to mxc and add it to a room pack under `shortcode`
+ * (replacing any image with that shortcode). Creates the pack, named after
+ * the room, if it doesn't exist.
+ */
+export async function addRoomEmoji(roomId: string, file: File, shortcode: string, stateKey = ''): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const room = client.getRoom(roomId);
+	if (!room) throw new Error('Room not found');
+
+	if (!SHORTCODE_PATTERN.test(shortcode)) {
+		throw new Error('Shortcodes are 2–32 letters, digits, _, + or -');
+	}
+	if (!ALLOWED_EMOJI_TYPES.has(file.type)) {
+		throw new Error(`Unsupported image type: ${file.type}`);
+	}
+	if (file.size > MAX_EMOJI_SIZE) {
+		throw new Error(`Image too large (max 1 MB, got ${(file.size / 1024 / 1024).toFixed(1)} MB)`);
+	}
+
+	const size = await getImageSize(file);
+	const { content_uri } = await client.uploadContent(file, { name: `${shortcode}.${file.type.split('/')[1]}`, type: file.type });
+
+	const content = getPackContent(room, stateKey);
+	const images = {
+		...content.images,
+		[shortcode]: {
+			url: content_uri,
+			info: { mimetype: file.type, size: file.size, ...(size ?? {}) },
+		},
+	};
+	const pack = content.pack ?? { display_name: getRoomName(room) };
+	await client.sendStateEvent(roomId, ROOM_EMOTES, { ...content, pack, images }, stateKey);
+}
+
+/** Remove an image from a room pack */
+export async function removeRoomEmoji(roomId: string, shortcode: string, stateKey = ''): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const room = client.getRoom(roomId);
+	if (!room) throw new Error('Room not found');
+
+	const content = getPackContent(room, stateKey);
+	const images = { ...content.images };
+	delete images[shortcode];
+	await client.sendStateEvent(roomId, ROOM_EMOTES, { ...content, images }, stateKey);
+}
+
+/**
+ * Set up image pack listeners: rebuild the current room's packs when a pack
+ * changes (room state or the user's account data).
+ */
+export function setupEmoteListeners(client: sdk.MatrixClient): void {
+	const refresh = () => refreshImagePacks(get(currentRoomId));
+
+	client.on(sdk.RoomStateEvent.Events, (event: sdk.MatrixEvent) => {
+		if (event.getType() === ROOM_EMOTES) refresh();
+	});
+	client.on(sdk.ClientEvent.AccountData, (event: sdk.MatrixEvent) => {
+		if (event.getType() === USER_EMOTES || event.getType() === EMOTE_ROOMS) refresh();
+	});
+
+	console.log('Emote listeners set up');
+}
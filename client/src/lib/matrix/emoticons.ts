@@ -0,0 +1,111 @@
+/**
+ * Inline Custom Emoji (`:shortcode:` in message text)
+ *
+ * The composer completes `:bon` to `:bonfire:`; sendMessage() then turns
+ * known shortcodes into `<img data-mx-emoticon src="mxc://…">` in the
+ * formatted_body (the body keeps the `:shortcode:` text).
+ *
+ * Shortcodes come from the current room's image packs (see emotes.ts) and the
+ * built-in DS icons, named after their reaction key (`:bonfire:`, `:estus:`).
+ * The icons are static files, so other clients can't fetch them — each is
+ * uploaded to mxc the first time it's sent, and the URL is kept in account
+ * data so that happens once per account.
+ */
+
+import { get } from 'svelte/store';
+import { matrixClient, imagePacks } from '$lib/stores/matrix';
+import { getPackEmoticons } from './emotes';
+import { DARKROOT_REACTIONS } from './reactions';
+
+const BUILTIN_UPLOADS_EVENT = 'chat.darkroot.emoji_uploads';
+const MAX_CANDIDATES = 8;
+
+export interface InlineEmoji {
+	shortcode: string;
+	/** mxc URL — pack emoji, or a built-in icon once uploaded */
+	url?: string;
+	/** Static path of a built-in icon (for previews before it's uploaded) */
+	image?: string;
+}
+
+/** Built-in icon uploads in flight: shortcode → mxc URL */
+const uploading = new Map<string, Promise<string>>();
+/** Uploads made this session — account data only updates once the sync echoes our write */
+const uploadedNow: Record<string, string> = {};
+
+function getUploadedBuiltins(): Record<string, string> {
+	const images = get(matrixClient)?.getAccountData(BUILTIN_UPLOADS_EVENT)?.getContent()?.images;
+	return { ...(images && typeof images === 'object' ? images : {}), ...uploadedNow };
+}
+
+/** Shortcodes usable in the current room; pack emoji win over a built-in with the same name */
+export function getInlineEmoji(): InlineEmoji[] {
+	const emoji: InlineEmoji[] = getPackEmoticons(get(imagePacks)).map(image => ({ shortcode: image.shortcode, url: image.url }));
+	const taken = new Set(emoji.map(e => e.shortcode));
+	const uploaded = getUploadedBuiltins();
+
+	for (const reaction of DARKROOT_REACTIONS) {
+		const shortcode = reaction.key.toLowerCase();
+		if (taken.has(shortcode)) continue;
+		emoji.push({ shortcode, url: uploaded[shortcode], image: reaction.image });
+	}
+	return emoji;
+}
+
+/** Shortcodes starting with the query, then those containing it */
+export function searchInlineEmoji(query: string): InlineEmoji[] {
+	const q = query.toLowerCase();
+	const all = getInlineEmoji();
+	return [
+		...all.filter(e => e.shortcode.toLowerCase().startsWith(q)),
+		...all.filter(e => !e.shortcode.toLowerCase().startsWith(q) && e.shortcode.toLowerCase().includes(q)),
+	].slice(0, MAX_CANDIDATES);
+}
+
+/** Upload a built-in icon to mxc and record it in account data */
+async function uploadBuiltin(shortcode: string, image: string): Promise<string> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const response = await fetch(image);
+	if (!response.ok) throw new Error(`Could not load ${image}: ${response.status}`);
+	const blob = await response.blob();
+	const { content_uri } = await client.uploadContent(blob, { name: `${shortcode}.png`, type: blob.type || 'image/png' });
+
+	uploadedNow[shortcode] = content_uri;
+	await client.setAccountData(BUILTIN_UPLOADS_EVENT, { images: getUploadedBuiltins() });
+	return content_uri;
+}
+
+/**
+ * The custom emoji in composer text, as shortcode → mxc URL, uploading any
+ * built-in icons that haven't been yet. Ones that can't be resolved (e.g. an
+ * upload failing offline) are left out and stay plain `:shortcode:` text.
+ */
+export async function resolveEmoticons(text: string): Promise<Record<string, string>> {
+	const used = new Set([...text.matchAll(/:([\w+-]{2,32}):/g)].map(match => match[1]));
+	if (used.size === 0) return {};
+
+	const resolved: Record<string, string> = {};
+	for (const emoji of getInlineEmoji()) {
+		if (!used.has(emoji.shortcode)) continue;
+		if (emoji.url) {
+			resolved[emoji.shortcode] = emoji.url;
+			continue;
+		}
+		if (!emoji.image) continue;
+
+		let upload = uploading.get(emoji.shortcode);
+		if (!upload) {
+			upload = uploadBuiltin(emoji.shortcode, emoji.image);
+			uploading.set(emoji.shortcode, upload);
+			upload.catch(() => {}).finally(() => uploading.delete(emoji.shortcode));
+		}
+		try {
+			resolved[emoji.shortcode] = await upload;
+		} catch (error) {
+			console.warn(`Could not upload :${emoji.shortcode}:, sending it as text:`, error);
+		}
+	}
+	return resolved;
+}
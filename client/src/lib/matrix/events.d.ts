@@ -0,0 +1,35 @@
+/**
+ * Event types the SDK doesn't know, declared so sendEvent(), sendStateEvent()
+ * and the account data calls type-check their content.
+ */
+
+import type { PollResponseEventContent } from 'matrix-js-sdk';
+import type { Bookmark } from '$lib/stores/matrix';
+
+/** An MSC2545 image pack: room state (one per state key) or the user's own pack */
+interface ImagePackContent {
+	images?: Record<string, { url: string; body?: string; info?: Record<string, any>; usage?: string[] }>;
+	pack?: { display_name?: string; avatar_url?: string; usage?: string[]; attribution?: string };
+}
+
+declare module 'matrix-js-sdk/lib/types' {
+	interface TimelineEvents {
+		// The SDK lists poll start and end, but not votes
+		'm.poll.response': PollResponseEventContent;
+	}
+
+	interface StateEvents {
+		'im.ponies.room_emotes': ImagePackContent;
+	}
+
+	interface AccountDataEvents {
+		'chat.darkroot.bookmarks': { bookmarks: Bookmark[] };
+		'im.ponies.user_emotes': ImagePackContent;
+		/** Room packs enabled everywhere: room ID → state key → {} */
+		'im.ponies.emote_rooms': { rooms: Record<string, Record<string, Record<string, never>>> };
+		/** Element's recently used emoji: [emoji, use count], most recent first */
+		'io.element.recent_emoji': { recent_emoji: [string, number][] };
+		/** Built-in icons uploaded for inline emoji: shortcode → mxc URL */
+		'chat.darkroot.emoji_uploads': { images: Record<string, string> };
+	}
+}
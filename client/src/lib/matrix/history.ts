@@ -0,0 +1,119 @@
+/**
+ * Message Edit History
+ *
+ * Every edit is an m.replace event carrying the full new text in m.new_content.
+ * The loaded timeline only keeps the latest one applied, so the history view
+ * fetches them all through the relations API (the SDK decrypts them and drops
+ * any "edits" not sent by the original sender, which servers must ignore too).
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient } from '$lib/stores/matrix';
+import { getPlainBody } from './messages';
+
+export interface Revision {
+	/** The original event for the first revision, the m.replace event after that */
+	eventId: string;
+	timestamp: number;
+	body: string;
+}
+
+export interface DiffPart {
+	text: string;
+	change: 'same' | 'added' | 'removed';
+}
+
+/** Above this many token pairs, diffWords() gives up and shows a full replacement */
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Load every revision of a message, oldest (the original) first.
+ */
+export async function fetchEditHistory(roomId: string, eventId: string): Promise<Revision[]> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const edits: sdk.MatrixEvent[] = [];
+	let original: sdk.MatrixEvent | null | undefined;
+	let from: string | undefined;
+
+	do {
+		const page = await client.relations(roomId, eventId, 'm.replace', 'm.room.message', {
+			dir: sdk.Direction.Backward,
+			limit: 50,
+			from,
+		});
+		original ??= page.originalEvent;
+		edits.push(...page.events);
+		from = page.nextBatch ?? undefined;
+	} while (from);
+
+	const revisions: Revision[] = edits
+		.filter(e => !e.isRedacted() && e.getContent()['m.new_content'])
+		.map(e => ({
+			eventId: e.getId() || '',
+			timestamp: e.getTs(),
+			body: getPlainBody(e.getContent()['m.new_content']),
+		}))
+		.sort((a, b) => a.timestamp - b.timestamp);
+
+	if (original) {
+		revisions.unshift({
+			eventId: original.getId() || eventId,
+			timestamp: original.getTs(),
+			body: getPlainBody(original.getContent()),
+		});
+	}
+
+	return revisions;
+}
+
+/**
+ * Word-level diff of two texts (longest common subsequence over words and the
+ * whitespace between them). Unchanged runs are merged into single parts.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+	const a = before.split(/(\s+)/).filter(Boolean);
+	const b = after.split(/(\s+)/).filter(Boolean);
+
+	if (a.length * b.length > MAX_DIFF_CELLS) {
+		return [
+			...(before ? [{ text: before, change: 'removed' as const }] : []),
+			...(after ? [{ text: after, change: 'added' as const }] : []),
+		];
+	}
+
+	// lcs[i][j] = length of the LCS of a[i..] and b[j..]
+	const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const parts: DiffPart[] = [];
+	const push = (text: string, change: DiffPart['change']) => {
+		const last = parts[parts.length - 1];
+		if (last?.change === change) last.text += text;
+		else parts.push({ text, change });
+	};
+
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			push(a[i], 'same');
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			push(a[i++], 'removed');
+		} else {
+			push(b[j++], 'added');
+		}
+	}
+	while (i < a.length) push(a[i++], 'removed');
+	while (j < b.length) push(b[j++], 'added');
+
+	return parts;
+}
@@ -0,0 +1,160 @@
+/**
+ * Matrix @-mentions
+ *
+ * The composer inserts a member's display name as plain text and remembers
+ * which user it belongs to. At send time those names become matrix.to pills in
+ * formatted_body and the user IDs go into m.mentions, so the right people get
+ * notified even if their name appears elsewhere in the text.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+
+/** A user mention inserted from the autocomplete: label is the text in the composer */
+export interface Mention {
+	userId: string;
+	label: string;
+}
+
+export interface MentionCandidate {
+	userId: string;
+	label: string;
+	avatarMxc: string | null;
+	/** The @room entry rather than a member */
+	isRoom?: boolean;
+}
+
+/** Text that notifies the whole room */
+export const ROOM_MENTION = '@room';
+
+/** matrix.to permalink for a user — the href of a user pill */
+export function permalinkForUser(userId: string): string {
+	return `https://matrix.to/#/${userId}`;
+}
+
+/**
+ * Whether a user has enough power to notify the whole room with @room
+ * (power_levels.notifications.room, default 50).
+ */
+export function canMentionRoom(room: sdk.Room, userId: string): boolean {
+	return room.currentState.mayTriggerNotifOfType('room', userId);
+}
+
+/**
+ * Joined members matching an autocomplete query (display name or user ID),
+ * prefix matches first. Includes @room when the user is allowed to use it.
+ */
+export function searchMentionCandidates(room: sdk.Room, query: string, myUserId: string, limit = 8): MentionCandidate[] {
+	const q = query.toLowerCase();
+
+	const members: MentionCandidate[] = room.getJoinedMembers()
+		.filter(m => m.userId !== myUserId)
+		.filter(m => !q || m.name.toLowerCase().includes(q) || m.userId.toLowerCase().includes(q))
+		.sort((a, b) => {
+			const aPrefix = a.name.toLowerCase().startsWith(q) || a.userId.toLowerCase().startsWith(`@${q}`);
+			const bPrefix = b.name.toLowerCase().startsWith(q) || b.userId.toLowerCase().startsWith(`@${q}`);
+			if (aPrefix !== bPrefix) return aPrefix ? -1 : 1;
+			return a.name.localeCompare(b.name);
+		})
+		.slice(0, limit)
+		.map(m => ({ userId: m.userId, label: m.name, avatarMxc: m.getMxcAvatarUrl() ?? null }));
+
+	if (ROOM_MENTION.slice(1).startsWith(q) && canMentionRoom(room, myUserId)) {
+		members.unshift({ userId: ROOM_MENTION, label: ROOM_MENTION, avatarMxc: null, isRoom: true });
+	}
+
+	return members;
+}
+
+/** Composer text where a name isn't a mention: code fences and spans, markdown links, URLs */
+const NO_MENTION_REGION = /(`{3,}|~{3,})[\s\S]*?(?:\1|$)|(`+)[^`]*?\2|\[[^\]\n]*\]\([^)\s]*\)|https?:\/\/\S+/g;
+
+interface MentionMatch {
+	start: number;
+	end: number;
+	mention: Mention;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Where mention labels appear in composer text, in order. A label only counts
+ * as a whole token ("Al" isn't in "Also" or "Alice") and outside code, link
+ * text and URLs.
+ */
+function findMentions(text: string, mentions: Mention[]): MentionMatch[] {
+	if (mentions.length === 0) return [];
+
+	const byLabel = new Map(mentions.map(m => [m.label, m]));
+	// Longest first so a longer label wins where two start at the same place
+	const labels = [...byLabel.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+	const pattern = new RegExp(`(?<![\\w@])(?:${labels})(?!\\w)`, 'g');
+
+	const skipped = [...text.matchAll(NO_MENTION_REGION)].map(match => [match.index!, match.index! + match[0].length]);
+	const matches: MentionMatch[] = [];
+	for (const match of text.matchAll(pattern)) {
+		const start = match.index!;
+		const end = start + match[0].length;
+		if (skipped.some(([from, to]) => start < to && end > from)) continue;
+		matches.push({ start, end, mention: byLabel.get(match[0])! });
+	}
+	return matches;
+}
+
+/**
+ * Replace mention labels in composer text with markdown links to the user's
+ * permalink, so markdown rendering turns them into pills.
+ */
+export function linkMentions(text: string, mentions: Mention[]): string {
+	let linked = '';
+	let last = 0;
+	for (const { start, end, mention } of findMentions(text, mentions)) {
+		const escaped = mention.label.replace(/([\\`*_[\]])/g, '\\$1');
+		linked += `${text.slice(last, start)}[${escaped}](${permalinkForUser(mention.userId)})`;
+		last = end;
+	}
+	return linked + text.slice(last);
+}
+
+/**
+ * Build m.mentions for outgoing text. Only mentions whose label is still in
+ * the text (as linkMentions() finds it) count; @room is only flagged when the
+ * sender may use it.
+ */
+export function buildMentionsMeta(text: string, mentions: Mention[], allowRoom: boolean): { user_ids?: string[]; room?: boolean } {
+	const meta: { user_ids?: string[]; room?: boolean } = {};
+
+	const userIds = [...new Set(findMentions(text, mentions).map(match => match.mention.userId))];
+	if (userIds.length > 0) meta.user_ids = userIds;
+	if (allowRoom && findMentions(text, [{ userId: ROOM_MENTION, label: ROOM_MENTION }]).length > 0) meta.room = true;
+
+	return meta;
+}
+
+/**
+ * Recover the mentions of an existing message (for editing): the users in its
+ * m.mentions, labelled with their current display names.
+ */
+export function mentionsFromContent(room: sdk.Room, content: any): Mention[] {
+	const userIds: string[] = content?.['m.mentions']?.user_ids ?? [];
+	return userIds.map(userId => ({ userId, label: room.getMember(userId)?.name || userId }));
+}
+
+/**
+ * Whether a message mentions the given user. Uses m.mentions when present;
+ * older clients without it fall back to the name/ID appearing in the body.
+ */
+export function isMentioned(content: any, userId: string, displayName?: string): boolean {
+	const meta = content?.['m.mentions'];
+	if (meta) {
+		return meta.room === true || (Array.isArray(meta.user_ids) && meta.user_ids.includes(userId));
+	}
+
+	const body: string = (content?.body || '').toLowerCase();
+	if (body.includes(ROOM_MENTION)) return true;
+	if (body.includes(userId.toLowerCase())) return true;
+	const localpart = userId.split(':')[0].substring(1).toLowerCase();
+	const names = [localpart, displayName?.toLowerCase()].filter((n): n is string => !!n);
+	return names.some(name => new RegExp(`(^|\\W)${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\W|$)`).test(body));
+}
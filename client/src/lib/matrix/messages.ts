@@ -4,7 +4,25 @@
 
 import * as sdk from 'matrix-js-sdk';
 import { get } from 'svelte/store';
-import { matrixClient, messages, currentRoomId, type Message } from '$lib/stores/matrix';
+import { matrixClient, messages, currentRoomId, jumpTarget, preferences, timelineWindow, type Message, type OutboxItem } from '$lib/stores/matrix';
+import { markdownToFormattedBody, maskSpoilers, maskHtmlSpoilers } from '$lib/utils/markdown';
+import { linkMentions, buildMentionsMeta, canMentionRoom, type Mention } from './mentions';
+import { resolveEmoticons } from './emoticons';
+import { enqueue, enqueueEvent } from './outbox';
+import { isPollStart, isPollRelation, parsePoll } from './polls';
+import { getReadReceiptType, refreshReadReceipts } from './receipts';
+import type { Recording } from '$lib/utils/recorder';
+import { getAudioDuration, getVideoInfo } from '$lib/utils/mediaInfo';
+import { processImage } from '$lib/utils/imageProcessing';
+
+/**
+ * The timeline MessageList shows for a room: the window around a linked event
+ * while one is open (see permalinks.ts), otherwise the live timeline.
+ */
+export function getShownTimeline(room: sdk.Room): sdk.EventTimeline {
+	const window = get(timelineWindow);
+	return window?.roomId === room.roomId ? window.timeline : room.getLiveTimeline();
+}
 
 /**
  * Fetch messages for a room and update store.
@@ -23,19 +41,130 @@ export async function fetchRoomMessages(roomId: string): Promise<void> {
 		return;
 	}
 
-	// Get timeline events
-	const timeline = room.getLiveTimeline();
-	const events = timeline.getEvents();
+	const events = room.getLiveTimeline().getEvents();
+
+	// Update messages store
+	messages.set(toMessageList(getShownTimeline(room).getEvents()));
+	refreshReadReceipts();
+
+	// Send a read receipt (private if the user chose so) for the last confirmed server event in the timeline.
+	// Skip local echo events (IDs start with '~') — the server rejects receipts for them.
+	const lastConfirmedEvent = [...events].reverse().find(e => {
+		const id = e.getId();
+		return id && !id.startsWith('~');
+	});
+	if (lastConfirmedEvent) {
+		client.sendReadReceipt(lastConfirmedEvent, getReadReceiptType()).catch(() => {});
+	}
+}
+
+/**
+ * Load one page of older history into the shown timeline (see getShownTimeline)
+ * and refresh the messages store. Same backwards pagination as loadFullHistory()
+ * in stats.ts, but a page at a time. Returns false once the start of the room is reached.
+ */
+export async function loadOlderMessages(roomId: string, limit = 50): Promise<boolean> {
+	const client = get(matrixClient);
+	if (!client) {
+		throw new Error('Matrix client not initialized');
+	}
+
+	const room = client.getRoom(roomId);
+	if (!room) return false;
+
+	const timeline = getShownTimeline(room);
+	// No backwards token means the timeline already starts at the room's creation
+	if (!timeline.getPaginationToken(sdk.EventTimeline.BACKWARDS)) return false;
+
+	// paginateEventTimeline returns false when there are no more pages
+	const hasMore = await client.paginateEventTimeline(timeline, { backwards: true, limit });
+
+	// Timeline listeners ignore events added to the start, so refresh here
+	if (get(currentRoomId) === roomId) {
+		messages.set(toMessageList(timeline.getEvents()));
+	}
+
+	return hasMore;
+}
+
+/**
+ * Load the page after a linked-event window (see permalinks.ts). Returns false
+ * once the window has caught up with the live timeline — the caller should
+ * then return to it.
+ */
+export async function loadNewerMessages(roomId: string, limit = 50): Promise<boolean> {
+	const client = get(matrixClient);
+	if (!client) {
+		throw new Error('Matrix client not initialized');
+	}
+
+	const window = get(timelineWindow);
+	if (window?.roomId !== roomId) return false;
+
+	const timeline = window.timeline;
+	const caughtUp = () => !timeline.getPaginationToken(sdk.EventTimeline.FORWARDS)
+		|| !!timeline.getNeighbouringTimeline(sdk.EventTimeline.FORWARDS);
+	if (caughtUp()) return false;
+
+	await client.paginateEventTimeline(timeline, { backwards: false, limit });
+	if (get(currentRoomId) === roomId) {
+		messages.set(toMessageList(timeline.getEvents()));
+	}
+	return !caughtUp();
+}
+
+/**
+ * Page back through a room's history until an event is in the live timeline,
+ * so it can be scrolled to (e.g. a search result). Returns false if the start
+ * of the room is reached without finding it.
+ */
+export async function loadMessagesUntil(roomId: string, eventId: string): Promise<boolean> {
+	const client = get(matrixClient);
+	if (!client) {
+		throw new Error('Matrix client not initialized');
+	}
+
+	const room = client.getRoom(roomId);
+	if (!room) return false;
+
+	// Jumps happen in the live timeline — leave any linked-event window
+	if (get(timelineWindow)?.roomId === roomId) {
+		timelineWindow.set(null);
+		messages.set(toMessageList(room.getLiveTimeline().getEvents()));
+	}
 
+	const isLoaded = () => room.getLiveTimeline().getEvents().some(e => e.getId() === eventId);
+	while (!isLoaded()) {
+		if (!(await loadOlderMessages(roomId, 100))) return isLoaded();
+	}
+	return true;
+}
+
+/**
+ * Load an event in the current room (see loadMessagesUntil) and have
+ * MessageList scroll to it. Returns false if it couldn't be found.
+ */
+export async function jumpToEvent(roomId: string, eventId: string): Promise<boolean> {
+	const found = await loadMessagesUntil(roomId, eventId);
+	if (found) jumpTarget.set({ id: eventId, ts: Date.now() });
+	return found;
+}
+
+/** Map timeline events to the message list shown in the main timeline */
+function toMessageList(events: sdk.MatrixEvent[]): Message[] {
 	// Filter to only message events and map to our format.
 	// Exclude redacted events and replacement events (edits) — the SDK automatically
 	// applies edits to the original event's content via event.getContent().
-	const messageEvents = events
+	// Thread replies (m.thread) live in the thread panel, not the main timeline.
+	// Poll starts are listed too; MessageList renders them as poll cards.
+	return events
 		.filter(event => {
-			if (event.getType() !== 'm.room.message') return false;
+			if (event.getType() !== 'm.room.message' && !isPollStart(event)) return false;
 			if (event.isRedacted()) return false;
 			const relatesTo = event.getContent()['m.relates_to'];
 			if (relatesTo?.rel_type === 'm.replace') return false;
+			// Original content: once edited, getContent() is m.new_content without the relation
+			if (event.getOriginalContent()['m.relates_to']?.rel_type === 'm.thread') return false;
 			return true;
 		})
 		.map(event => ({
@@ -45,25 +174,85 @@ export async function fetchRoomMessages(roomId: string): Promise<void> {
 			timestamp: event.getTs(),
 			event: event
 		}));
+}
 
-	// Update messages store
-	messages.set(messageEvents);
+export interface SendOptions {
+	/** Send as a reply (m.in_reply_to) to this event */
+	replyTo?: sdk.MatrixEvent | null;
+	/** Send into a thread; latestEventId is the newest event in it (for the reply fallback) */
+	thread?: { rootId: string; latestEventId: string };
+	/** Send the text as typed, without rendering markdown to formatted_body */
+	plain?: boolean;
+	/** Users picked from the @-autocomplete; their labels in the text become pills */
+	mentions?: Mention[];
+	/** m.emote for /me actions; defaults to m.text */
+	msgtype?: 'm.text' | 'm.emote';
+}
 
-	// Send a read receipt for the last confirmed server event in the timeline.
-	// Skip local echo events (IDs start with '~') — the server rejects receipts for them.
-	const lastConfirmedEvent = [...events].reverse().find(e => {
-		const id = e.getId();
-		return id && !id.startsWith('~');
-	});
-	if (lastConfirmedEvent) {
-		client.sendReadReceipt(lastConfirmedEvent).catch(() => {});
+/**
+ * Build m.text content for composer text. Markdown is rendered to
+ * org.matrix.custom.html unless `plain` is set or it has no formatting.
+ * Mention labels become matrix.to pills and their users go into m.mentions;
+ * `emoticons` (shortcode → mxc URL) become inline custom emoji.
+ */
+function buildTextContent(
+	text: string,
+	plain = false,
+	mentions: Mention[] = [],
+	allowRoomMention = false,
+	msgtype: 'm.text' | 'm.emote' = 'm.text',
+	emoticons: Record<string, string> = {}
+): Record<string, any> {
+	const content: Record<string, any> = {
+		msgtype,
+		body: text,
+		'm.mentions': buildMentionsMeta(text, mentions, allowRoomMention),
+	};
+	const formatted = plain ? null : markdownToFormattedBody(linkMentions(text, mentions), emoticons);
+	if (formatted) {
+		content.format = 'org.matrix.custom.html';
+		content.formatted_body = formatted;
 	}
+	return content;
 }
 
 /**
- * Send a text message to a room
+ * Build the m.relates_to block for a message, or null for a plain message.
+ * Thread messages without an explicit reply target point m.in_reply_to at the
+ * latest thread event with is_falling_back, so thread-unaware clients still
+ * show them as replies.
  */
-export async function sendMessage(roomId: string, text: string): Promise<void> {
+function buildRelatesTo(options: SendOptions): Record<string, any> | null {
+	const replyToId = options.replyTo?.getId();
+
+	if (options.thread) {
+		return {
+			rel_type: 'm.thread',
+			event_id: options.thread.rootId,
+			is_falling_back: !replyToId,
+			'm.in_reply_to': { event_id: replyToId || options.thread.latestEventId },
+		};
+	}
+
+	if (replyToId) {
+		return { 'm.in_reply_to': { event_id: replyToId } };
+	}
+
+	return null;
+}
+
+/**
+ * Send a text message to a room.
+ * Markdown is sent as formatted_body too; pass `plain` to send the raw text only.
+ * Pass `replyTo` to send it as a reply (m.in_reply_to) to an existing event.
+ * No reply fallback is prepended — fallbacks were dropped from the spec and
+ * we strip them on receive anyway (see stripReplyFallback).
+ * Custom emoji shortcodes are resolved first (see emoticons.ts) — the first
+ * use of a built-in icon waits for its one-time upload.
+ * The message goes through the outbox, so this resolves once it's queued —
+ * delivery (and failure) shows up as a local echo in MessageList.
+ */
+export async function sendMessage(roomId: string, text: string, options: SendOptions = {}): Promise<void> {
 	const client = get(matrixClient);
 	if (!client) {
 		throw new Error('Matrix client not initialized');
@@ -73,52 +262,95 @@ export async function sendMessage(roomId: string, text: string): Promise<void> {
 		return; // Don't send empty messages
 	}
 
-	try {
-		await client.sendTextMessage(roomId, text.trim());
-		console.log('Message sent:', text);
-	} catch (error) {
-		console.error('Failed to send message:', error);
-		throw error;
+	const room = client.getRoom(roomId);
+	const allowRoomMention = !!room && canMentionRoom(room, client.getUserId() || '');
+	const emoticons = options.plain ? {} : await resolveEmoticons(text);
+	const content = buildTextContent(text.trim(), options.plain, options.mentions, allowRoomMention, options.msgtype, emoticons);
+
+	// Replying mentions the original sender, so they're notified like other clients do
+	const replySender = options.replyTo?.getSender();
+	if (replySender && replySender !== client.getUserId()) {
+		const meta = content['m.mentions'];
+		meta.user_ids = [...new Set([...(meta.user_ids ?? []), replySender])];
+	}
+
+	const relatesTo = buildRelatesTo(options);
+	if (relatesTo) {
+		content['m.relates_to'] = relatesTo;
 	}
+
+	enqueueEvent(roomId, 'message', sdk.EventType.RoomMessage, content);
 }
 
 const ALLOWED_IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif']);
 const ALLOWED_FILE_TYPES  = new Set(['application/pdf', 'text/plain', 'application/zip',
 	'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']);
+const ALLOWED_AUDIO_TYPES = new Set(['audio/mpeg', 'audio/ogg', 'audio/webm', 'audio/mp4', 'audio/x-m4a',
+	'audio/aac', 'audio/wav', 'audio/x-wav', 'audio/flac']);
+const ALLOWED_VIDEO_TYPES = new Set(['video/mp4', 'video/webm', 'video/ogg', 'video/quicktime']);
 const MAX_IMAGE_SIZE = 25 * 1024 * 1024;  // 25 MB
+
+/** info key for an image's blurhash (MSC2448, still unstable) */
+export const BLURHASH_KEY = 'xyz.amorgan.blurhash';
+/** Content key marking media as a spoiler (MSC4193): blurred until clicked */
+export const SPOILER_KEY = 'page.codeberg.everypizza.msc4193.spoiler';
 const MAX_FILE_SIZE  = 50 * 1024 * 1024;  // 50 MB (matches nginx client_max_body_size)
 
 function sanitizeFilename(name: string): string {
 	return name.replace(/[^a-zA-Z0-9._\- ]/g, '_').substring(0, 255);
 }
 
+export interface AttachmentOptions {
+	/** Sent as the body (the file name goes in `filename`) */
+	caption?: string;
+	/** Mark the media as a spoiler, so clients blur it until clicked */
+	spoiler?: boolean;
+}
+
+/** Outbox fields for an upload's caption and spoiler flag */
+function attachmentFields({ caption, spoiler }: AttachmentOptions): Pick<OutboxItem, 'caption' | 'extra'> {
+	return { caption: caption || undefined, extra: spoiler ? { [SPOILER_KEY]: true } : undefined };
+}
+
+/** Whether a media message is marked as a spoiler */
+export function isSpoiler(content: any): boolean {
+	return content?.[SPOILER_KEY] === true;
+}
+
 /**
- * Send an image message to a room
+ * Send an image message to a room. Validated and processed here (metadata
+ * stripped, optional downscale, thumbnail, blurhash), then uploaded and sent
+ * by the outbox.
  */
-export async function sendImage(roomId: string, file: File): Promise<void> {
+export async function sendImage(roomId: string, file: File, options: AttachmentOptions = {}): Promise<void> {
 	const client = get(matrixClient);
 	if (!client) throw new Error('Matrix client not initialized');
 
 	if (!ALLOWED_IMAGE_TYPES.has(file.type)) {
 		throw new Error(`Unsupported image type: ${file.type}`);
 	}
-	if (file.size > MAX_IMAGE_SIZE) {
-		throw new Error(`Image too large (max 25 MB, got ${(file.size / 1024 / 1024).toFixed(1)} MB)`);
+
+	// Size is checked after processing — downscaling usually brings big photos under the limit
+	const image = await processImage(file, { downscale: get(preferences).downscaleImages });
+	if (image.file.size > MAX_IMAGE_SIZE) {
+		throw new Error(`Image too large (max 25 MB, got ${(image.file.size / 1024 / 1024).toFixed(1)} MB)`);
 	}
 
-	const uploadResponse = await client.uploadContent(file);
-	await client.sendMessage(roomId, {
-		msgtype: 'm.image',
-		body: sanitizeFilename(file.name),
-		url: uploadResponse.content_uri,
-		info: { mimetype: file.type, size: file.size },
+	enqueue({
+		kind: 'upload', roomId, file: image.file, fileName: sanitizeFilename(image.name), ...attachmentFields(options), msgtype: 'm.image',
+		info: {
+			...(image.w && image.h ? { w: image.w, h: image.h } : {}),
+			...(image.blurhash ? { [BLURHASH_KEY]: image.blurhash } : {}),
+			...(image.thumbnail ? { thumbnail_info: { w: image.thumbnail.w, h: image.thumbnail.h } } : {}),
+		},
+		thumbnail: image.thumbnail?.blob,
 	});
 }
 
 /**
- * Send a file message to a room
+ * Send a file message to a room. Validated here, then uploaded and sent by the outbox.
  */
-export async function sendFile(roomId: string, file: File): Promise<void> {
+export async function sendFile(roomId: string, file: File, options: AttachmentOptions = {}): Promise<void> {
 	const client = get(matrixClient);
 	if (!client) throw new Error('Matrix client not initialized');
 
@@ -129,12 +361,96 @@ export async function sendFile(roomId: string, file: File): Promise<void> {
 		throw new Error(`File too large (max 50 MB, got ${(file.size / 1024 / 1024).toFixed(1)} MB)`);
 	}
 
-	const uploadResponse = await client.uploadContent(file);
-	await client.sendMessage(roomId, {
-		msgtype: 'm.file',
-		body: sanitizeFilename(file.name),
-		url: uploadResponse.content_uri,
-		info: { mimetype: file.type, size: file.size },
+	enqueue({ kind: 'upload', roomId, file, fileName: sanitizeFilename(file.name), ...attachmentFields(options), msgtype: 'm.file' });
+}
+
+/**
+ * Send an audio file (m.audio with its duration). Validated here, then uploaded and sent by the outbox.
+ */
+export async function sendAudio(roomId: string, file: File, options: AttachmentOptions = {}): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	if (!ALLOWED_AUDIO_TYPES.has(file.type)) {
+		throw new Error(`Unsupported audio type: ${file.type}`);
+	}
+	if (file.size > MAX_FILE_SIZE) {
+		throw new Error(`Audio too large (max 50 MB, got ${(file.size / 1024 / 1024).toFixed(1)} MB)`);
+	}
+
+	const duration = await getAudioDuration(file);
+	enqueue({
+		kind: 'upload', roomId, file, fileName: sanitizeFilename(file.name), ...attachmentFields(options), msgtype: 'm.audio',
+		info: duration ? { duration } : undefined,
+	});
+}
+
+/**
+ * Send a video (m.video with duration, dimensions and a poster frame as its
+ * thumbnail). Validated here, then uploaded and sent by the outbox.
+ */
+export async function sendVideo(roomId: string, file: File, options: AttachmentOptions = {}): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	if (!ALLOWED_VIDEO_TYPES.has(file.type)) {
+		throw new Error(`Unsupported video type: ${file.type}`);
+	}
+	if (file.size > MAX_FILE_SIZE) {
+		throw new Error(`Video too large (max 50 MB, got ${(file.size / 1024 / 1024).toFixed(1)} MB)`);
+	}
+
+	const { duration, w, h, poster } = await getVideoInfo(file);
+	enqueue({
+		kind: 'upload', roomId, file, fileName: sanitizeFilename(file.name), ...attachmentFields(options), msgtype: 'm.video',
+		info: {
+			...(duration ? { duration } : {}),
+			...(w && h ? { w, h } : {}),
+			...(poster ? { thumbnail_info: { w: poster.w, h: poster.h } } : {}),
+		},
+		thumbnail: poster?.blob,
+	});
+}
+
+/**
+ * Send any attachment, picking the message type from the file's MIME type.
+ */
+export async function sendAttachment(roomId: string, file: File, options: AttachmentOptions = {}): Promise<void> {
+	if (file.type.startsWith('image/')) return sendImage(roomId, file, options);
+	if (file.type.startsWith('audio/')) return sendAudio(roomId, file, options);
+	if (file.type.startsWith('video/')) return sendVideo(roomId, file, options);
+	return sendFile(roomId, file, options);
+}
+
+/**
+ * Send a recorded voice message (m.audio with the MSC3245 voice fields, so
+ * other clients show it as a voice message with its waveform).
+ */
+export async function sendVoiceMessage(roomId: string, recording: Recording): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	if (!ALLOWED_AUDIO_TYPES.has(recording.mimetype)) {
+		throw new Error(`Unsupported audio type: ${recording.mimetype}`);
+	}
+	if (recording.blob.size > MAX_FILE_SIZE) {
+		throw new Error('Voice message too large');
+	}
+
+	const extension = recording.mimetype === 'audio/mp4' ? 'm4a' : recording.mimetype.split('/')[1];
+	enqueue({
+		kind: 'upload',
+		roomId,
+		file: recording.blob,
+		fileName: `voice-message.${extension}`,
+		msgtype: 'm.audio',
+		info: { mimetype: recording.mimetype, duration: recording.durationMs },
+		extra: {
+			body: 'Voice message',
+			'org.matrix.msc1767.text': 'Voice message',
+			'org.matrix.msc1767.audio': { duration: recording.durationMs, waveform: recording.waveform },
+			'org.matrix.msc3245.voice': {},
+		},
 	});
 }
 
@@ -153,13 +469,13 @@ export function setupMessageListeners(client: sdk.MatrixClient): void {
 
 		const type = event.getType();
 
-		if (type === 'm.room.message') {
+		if (type === 'm.room.message' || isPollStart(event)) {
 			console.log('New message received:', event.getContent());
 			await fetchRoomMessages(room.roomId);
 			// fetchRoomMessages already sends the read receipt for us
-		} else if (type === 'm.reaction') {
-			// Reaction added — SDK has already updated room.relations by this point.
-			// Force a re-render so getMessageReactions() picks up the new reaction.
+		} else if (type === 'm.reaction' || isPollRelation(event)) {
+			// Reaction or poll vote added — SDK has already updated room.relations by this point.
+			// Force a re-render so getMessageReactions() / getPollTally() pick it up.
 			messages.update(msgs => [...msgs]);
 		}
 	});
@@ -175,15 +491,121 @@ export function setupMessageListeners(client: sdk.MatrixClient): void {
 }
 
 /**
- * Get message body text (handles different message types)
+ * Get message body text (handles different message types).
+ * Reply fallbacks from other clients are stripped so only the reply itself renders.
  */
 export function getMessageBody(content: any): string {
+	const stripped = stripReplyFallback(content);
+
 	// Handle formatted messages (markdown)
-	if (content.format === 'org.matrix.custom.html' && content.formatted_body) {
-		return content.formatted_body;
+	if (isHtmlMessage(stripped)) {
+		return stripped.formatted_body;
+	}
+
+	return stripped.body || '';
+}
+
+/**
+ * Get the plain-text body, ignoring formatted_body. Use this when scanning
+ * for URLs — the HTML version has them inside href attributes too.
+ */
+export function getPlainBody(content: any): string {
+	return stripReplyFallback(content)?.body || '';
+}
+
+/**
+ * Plain-text body with spoilers masked as [spoiler] — for previews and for
+ * anything pulled out of the text (like service links) that mustn't give a
+ * spoiler away.
+ */
+export function getUnspoileredBody(content: any): string {
+	const stripped = stripReplyFallback(content);
+	return isHtmlMessage(stripped) && stripped.formatted_body.includes('data-mx-spoiler')
+		? maskHtmlSpoilers(stripped.formatted_body)
+		: maskSpoilers(stripped.body || '');
+}
+
+/** True when the content carries an org.matrix.custom.html formatted_body */
+export function isHtmlMessage(content: any): boolean {
+	return content?.format === 'org.matrix.custom.html' && !!content.formatted_body;
+}
+
+/**
+ * Get the event ID this message replies to, if any.
+ * Thread fallbacks (is_falling_back) are not real replies and are ignored.
+ * Pass the event's original content — an edit's m.new_content has no m.relates_to.
+ */
+export function getReplyToId(content: any): string | null {
+	const relatesTo = content?.['m.relates_to'];
+	if (relatesTo?.rel_type === 'm.thread' && relatesTo.is_falling_back) return null;
+	return relatesTo?.['m.in_reply_to']?.event_id || null;
+}
+
+/**
+ * Remove the legacy reply fallback that older clients prepend to replies:
+ * `> <@user:server> quoted line` lines in `body`, and the `<mx-reply>` block
+ * in `formatted_body`. Returns a shallow copy; non-replies pass through untouched.
+ */
+export function stripReplyFallback(content: any): any {
+	if (!content || !getReplyToId(content)) return content;
+
+	const result = { ...content };
+
+	// Fallbacks open with `> <@sender>` (or `> * <@sender>` for emotes); a quote the
+	// user typed themselves doesn't, and must survive
+	if (typeof result.body === 'string' && /^> (\* )?<@/.test(result.body)) {
+		const lines = result.body.split('\n');
+		let i = 0;
+		while (i < lines.length && lines[i].startsWith('> ')) i++;
+		if (lines[i] === '') i++; // blank separator line after the quote
+		result.body = lines.slice(i).join('\n');
 	}
 
-	return content.body || '';
+	if (typeof result.formatted_body === 'string') {
+		result.formatted_body = result.formatted_body.replace(/^<mx-reply>[\s\S]*?<\/mx-reply>/, '');
+	}
+
+	return result;
+}
+
+/**
+ * Short plain-text preview of a message, used for reply quotes and the
+ * "replying to" bar in the composer.
+ */
+export function getMessagePreview(content: any, maxLength = 120): string {
+	const type = getMessageType(content);
+	if (type === 'm.image') return 'sent an image';
+	if (type === 'm.file') return `sent a file: ${content.body || ''}`;
+	if (type === 'm.audio') return getAudioInfo(content).isVoice ? 'sent a voice message' : `sent audio: ${content.body || ''}`;
+	if (type === 'm.video') return `sent a video: ${content.body || ''}`;
+	const poll = parsePoll(content);
+	if (poll) return `poll: ${poll.question}`;
+
+	// Spoilers stay hidden in previews
+	const flat = getUnspoileredBody(content).replace(/\s+/g, ' ').trim();
+	return flat.length > maxLength ? flat.substring(0, maxLength) + '…' : flat;
+}
+
+export interface AudioInfo {
+	/** Milliseconds, when the sender included it */
+	duration: number | null;
+	/** 0–1024 levels (MSC3245), when the sender included them */
+	waveform: number[] | null;
+	isVoice: boolean;
+}
+
+/** Duration and waveform of an m.audio message, from the stable or MSC1767 fields */
+export function getAudioInfo(content: any): AudioInfo {
+	const audio = content?.['org.matrix.msc1767.audio'] ?? content?.['m.audio'];
+	const duration = Number(content?.info?.duration ?? audio?.duration);
+	const waveform = Array.isArray(audio?.waveform) && audio.waveform.every((v: unknown) => typeof v === 'number')
+		? audio.waveform as number[]
+		: null;
+	return {
+		duration: Number.isFinite(duration) && duration > 0 ? duration : null,
+		waveform: waveform?.length ? waveform : null,
+		isVoice: !!(content?.['org.matrix.msc3245.voice'] ?? content?.['m.voice']),
+	};
 }
 
 /**
@@ -203,23 +625,44 @@ export function isOwnMessage(senderId: string, client: sdk.MatrixClient): boolea
 /**
  * Edit a message by sending a replacement event (m.replace).
  * The SDK will update the original event's content automatically on next sync.
+ * The new text is formatted the same way as sendMessage(), so edits keep their markdown
+ * and pills. Pass the message's existing mentions (see mentionsFromContent).
  */
-export async function editMessage(roomId: string, eventId: string, newText: string): Promise<void> {
+export async function editMessage(
+	roomId: string,
+	eventId: string,
+	newText: string,
+	options: Pick<SendOptions, 'plain' | 'mentions'> = {}
+): Promise<void> {
 	const client = get(matrixClient);
 	if (!client) throw new Error('Matrix client not initialized');
 
-	await client.sendMessage(roomId, {
-		msgtype: 'm.text',
-		body: `* ${newText}`,
-		'm.new_content': {
-			msgtype: 'm.text',
-			body: newText,
-		},
+	const text = newText.trim();
+	if (!text) return;
+
+	const room = client.getRoom(roomId);
+	const allowRoomMention = !!room && canMentionRoom(room, client.getUserId() || '');
+	// Keep the message's type, so editing an /me emote doesn't turn it into text
+	const msgtype = room?.findEventById(eventId)?.getOriginalContent().msgtype === 'm.emote' ? 'm.emote' : 'm.text';
+	const emoticons = options.plain ? {} : await resolveEmoticons(text);
+	const newContent = buildTextContent(text, options.plain, options.mentions, allowRoomMention, msgtype, emoticons);
+
+	// Fallback for clients without edit support: "* new text". Its m.mentions is
+	// empty so the people already mentioned aren't notified a second time.
+	const fallback: Record<string, any> = { msgtype, body: `* ${text}`, 'm.mentions': {} };
+	if (newContent.formatted_body) {
+		fallback.format = 'org.matrix.custom.html';
+		fallback.formatted_body = `* ${newContent.formatted_body}`;
+	}
+
+	enqueueEvent(roomId, 'edit', sdk.EventType.RoomMessage, {
+		...fallback,
+		'm.new_content': newContent,
 		'm.relates_to': {
 			rel_type: 'm.replace',
 			event_id: eventId,
 		},
-	} as any);
+	}, eventId);
 }
 
 /**
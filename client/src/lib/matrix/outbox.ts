@@ -0,0 +1,326 @@
+/**
+ * Matrix Outbox — persistent queue for everything we send.
+ *
+ * Messages, edits, reactions, poll votes and uploads are queued here instead of being sent
+ * directly, so nothing is lost when the network or sync is down. The queue is
+ * kept in IndexedDB (uploads need to keep their file), shown in MessageList as
+ * local echoes, and drained in order whenever sync is healthy. A failed item
+ * holds back the rest of its room's queue until it's retried or discarded, so
+ * a room never sees messages (or an edit and its message) out of order.
+ *
+ * Each item's ID doubles as the Matrix transaction ID: if a send succeeded but
+ * we never saw the response (reload, dropped connection), resending it is
+ * de-duplicated by the server.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient, syncState, outbox, uploadProgress, type OutboxItem } from '$lib/stores/matrix';
+
+const DB_NAME = 'darkroot_outbox';
+const STORE_NAME = 'items';
+
+/** Retry delay after a connection error that sync hasn't noticed yet */
+const RETRY_DELAY_MS = 15_000;
+
+let draining = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** The upload in flight, so it can be cancelled */
+let activeUpload: { id: string; promise: Promise<sdk.UploadResponse> } | null = null;
+/** Items whose upload was cancelled — their failure removes them instead */
+const cancelled = new Set<string>();
+
+// ── IndexedDB persistence ──────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, 1);
+			request.onupgradeneeded = () => {
+				request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+	return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+	const db = await openDb();
+	return new Promise((resolve, reject) => {
+		const request = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function persist(item: OutboxItem): void {
+	withStore('readwrite', store => store.put(item)).catch(err => console.warn('Outbox persist failed:', err));
+}
+
+function unpersist(id: string): void {
+	withStore('readwrite', store => store.delete(id)).catch(err => console.warn('Outbox delete failed:', err));
+}
+
+// ── Queue management ───────────────────────────────────────────────────
+
+function makeId(): string {
+	return `dr${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function updateItem(id: string, changes: Partial<OutboxItem>): OutboxItem | null {
+	let updated: OutboxItem | null = null;
+	outbox.update(items => items.map(item => {
+		if (item.id !== id) return item;
+		updated = { ...item, ...changes };
+		return updated;
+	}));
+	if (updated) persist(updated);
+	return updated;
+}
+
+function removeItem(id: string): void {
+	outbox.update(items => items.filter(item => item.id !== id));
+	unpersist(id);
+}
+
+/**
+ * Load the queue saved by a previous session. Items that were mid-send are
+ * queued again; items already sent were echoed by now and are dropped.
+ * Called once when the client starts.
+ */
+export async function restoreOutbox(): Promise<void> {
+	if (typeof indexedDB === 'undefined') return;
+
+	try {
+		const saved = await withStore<OutboxItem[]>('readonly', store => store.getAll());
+		const items: OutboxItem[] = [];
+		for (const item of saved.sort((a, b) => a.createdAt - b.createdAt)) {
+			if (item.status === 'sent') {
+				unpersist(item.id);
+				continue;
+			}
+			items.push(item.status === 'sending' ? { ...item, status: 'queued' } : item);
+		}
+		outbox.set(items);
+	} catch (error) {
+		console.warn('Failed to restore outbox:', error);
+	}
+}
+
+/** Empty the queue (on logout — it belongs to the account that queued it) */
+export async function clearOutbox(): Promise<void> {
+	outbox.set([]);
+	if (typeof indexedDB === 'undefined') return;
+	await withStore('readwrite', store => store.clear()).catch(() => {});
+}
+
+/** Add an item to the end of the queue and start draining */
+export function enqueue(item: Omit<OutboxItem, 'id' | 'createdAt' | 'status'>): OutboxItem {
+	const queued: OutboxItem = { ...item, id: makeId(), createdAt: Date.now(), status: 'queued' };
+	outbox.update(items => [...items, queued]);
+	persist(queued);
+	drainOutbox();
+	return queued;
+}
+
+/** Queue an event (message, edit, reaction, poll vote/end) for sending */
+export function enqueueEvent(
+	roomId: string,
+	kind: 'message' | 'edit' | 'reaction' | 'poll',
+	eventType: keyof sdk.TimelineEvents,
+	content: Record<string, any>,
+	targetId?: string
+): OutboxItem {
+	return enqueue({ kind, roomId, eventType, content, targetId });
+}
+
+/** Put a failed item back in the queue */
+export function retryOutboxItem(id: string): void {
+	updateItem(id, { status: 'queued', error: undefined });
+	drainOutbox();
+}
+
+/** Drop a failed item without sending it */
+export function discardOutboxItem(id: string): void {
+	const item = get(outbox).find(i => i.id === id);
+	if (!item || item.status === 'sending') return;
+	removeItem(id);
+	drainOutbox();
+}
+
+/**
+ * Cancel an upload: queued or failed ones are dropped, one in flight is
+ * aborted. Once the file is up and the event is being sent, it's too late.
+ */
+export function cancelUpload(id: string): void {
+	const item = get(outbox).find(i => i.id === id);
+	if (!item || item.kind !== 'upload') return;
+	if (item.status === 'queued' || item.status === 'failed') {
+		removeItem(id);
+		drainOutbox();
+		return;
+	}
+	if (activeUpload?.id !== id) return;
+	cancelled.add(id);
+	get(matrixClient)?.cancelUpload(activeUpload.promise);
+}
+
+// ── Sending ────────────────────────────────────────────────────────────
+
+/** The oldest queued item whose room isn't held up by an earlier failed item */
+function nextItem(items: OutboxItem[]): OutboxItem | undefined {
+	const blocked = new Set<string>();
+	for (const item of items) {
+		if (item.status === 'failed') blocked.add(item.roomId);
+		else if (item.status === 'queued' && !blocked.has(item.roomId)) return item;
+	}
+	return undefined;
+}
+
+/**
+ * Send queued items one at a time, oldest first, skipping rooms with a failed
+ * item. Stops when sync isn't healthy or the connection drops; the next
+ * SYNCING state picks it back up.
+ */
+export async function drainOutbox(): Promise<void> {
+	const client = get(matrixClient);
+	if (draining || !client || get(syncState) !== 'SYNCING') return;
+
+	draining = true;
+	try {
+		let next: OutboxItem | undefined;
+		while ((next = nextItem(get(outbox)))) {
+			const keepGoing = await sendItem(client, next);
+			if (!keepGoing) break;
+		}
+	} finally {
+		draining = false;
+	}
+}
+
+/**
+ * Send one item. Returns false if the connection is down and draining should
+ * pause; a rejected item is marked failed, which holds back its room.
+ */
+async function sendItem(client: sdk.MatrixClient, item: OutboxItem): Promise<boolean> {
+	updateItem(item.id, { status: 'sending', error: undefined });
+
+	try {
+		let content = item.content;
+
+		// Upload first; keep the mxc URL so a failed send doesn't upload twice
+		if (item.kind === 'upload' && !content) {
+			if (!item.file) throw new Error('Upload file missing');
+			const info: Record<string, any> = { mimetype: item.file.type, size: item.file.size, ...item.info };
+			if (item.thumbnail) {
+				info.thumbnail_url = await upload(client, item.id, item.thumbnail, { type: item.thumbnail.type });
+				info.thumbnail_info = { ...info.thumbnail_info, mimetype: item.thumbnail.type, size: item.thumbnail.size };
+			}
+			const url = await upload(client, item.id, item.file, {
+				name: item.fileName,
+				type: item.file.type,
+				progressHandler: ({ loaded, total }) => uploadProgress.update(p => ({ ...p, [item.id]: { loaded, total } })),
+			});
+			content = {
+				msgtype: item.msgtype,
+				// With a caption, the body is the caption and the name moves to `filename`
+				body: item.caption || item.fileName,
+				...(item.caption ? { filename: item.fileName } : {}),
+				url,
+				info,
+				...item.extra,
+			};
+			updateItem(item.id, { content });
+		}
+
+		let eventId: string;
+		if (item.kind === 'unreact') {
+			const result = await client.redactEvent(item.roomId, item.targetId!, item.id);
+			eventId = result.event_id;
+		} else {
+			const eventType = item.eventType ?? sdk.EventType.RoomMessage;
+			const result = await client.sendEvent(item.roomId, eventType, content as sdk.TimelineEvents[typeof eventType], item.id);
+			eventId = result.event_id;
+		}
+
+		// Keep the echo until the event reaches the timeline, unless sync already delivered it
+		if (client.getRoom(item.roomId)?.findEventById(eventId)) {
+			removeItem(item.id);
+		} else {
+			updateItem(item.id, { status: 'sent', eventId });
+		}
+		return true;
+	} catch (error) {
+		if (cancelled.delete(item.id)) {
+			removeItem(item.id);
+			return true;
+		}
+		cancelLocalEcho(client, item);
+
+		// The server answered with a 4xx (other than rate limiting): sending again won't help
+		const rejected = error instanceof sdk.HTTPError && !!error.httpStatus
+			&& error.httpStatus >= 400 && error.httpStatus < 500 && error.httpStatus !== 429;
+
+		if (rejected || get(syncState) === 'SYNCING' && !(error instanceof sdk.ConnectionError)) {
+			console.error('Outbox send failed:', error);
+			updateItem(item.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+			return true;
+		}
+
+		// Connection trouble — wait for sync to recover (or retry shortly if it never noticed)
+		updateItem(item.id, { status: 'queued' });
+		if (!retryTimer) {
+			retryTimer = setTimeout(() => { retryTimer = null; drainOutbox(); }, RETRY_DELAY_MS);
+		}
+		return false;
+	} finally {
+		if (item.kind === 'upload') {
+			uploadProgress.update(({ [item.id]: _done, ...rest }) => rest);
+		}
+	}
+}
+
+/** Upload a blob, remembering it as the active upload so cancelUpload() can abort it */
+async function upload(client: sdk.MatrixClient, id: string, blob: Blob, opts: sdk.UploadOpts): Promise<string> {
+	const promise = client.uploadContent(blob, opts);
+	activeUpload = { id, promise };
+	try {
+		return (await promise).content_uri;
+	} finally {
+		activeUpload = null;
+	}
+}
+
+/**
+ * The SDK keeps its own NOT_SENT copy of a failed send in the room's pending
+ * list (and persists it). We own retries, so throw that copy away.
+ */
+function cancelLocalEcho(client: sdk.MatrixClient, item: OutboxItem): void {
+	const pending = client.getRoom(item.roomId)?.getPendingEvents().find(e => e.getTxnId() === item.id);
+	if (pending?.status === sdk.EventStatus.NOT_SENT) {
+		try { client.cancelPendingEvent(pending); } catch {}
+	}
+}
+
+/**
+ * Set up outbox listeners: drain when sync recovers, and drop sent items once
+ * their event shows up in the timeline.
+ */
+export function setupOutboxListeners(client: sdk.MatrixClient): void {
+	client.on(sdk.ClientEvent.Sync, (state) => {
+		if (state === 'SYNCING') drainOutbox();
+	});
+
+	client.on(sdk.RoomEvent.Timeline, (event) => {
+		const eventId = event.getId();
+		const sent = get(outbox).find(i => i.status === 'sent' && i.eventId === eventId);
+		if (sent) removeItem(sent.id);
+	});
+
+	console.log('Outbox listeners set up');
+}
@@ -0,0 +1,159 @@
+/**
+ * Permalinks to messages
+ *
+ * Links come in two forms: matrix.to (what "copy link" produces — any Matrix
+ * client understands it) and the app's own /room/<id>/event/<id> route.
+ * Opening one loads the event's context (GET /context, via getEventTimeline())
+ * into timelineWindow, so MessageList shows the messages around it and
+ * flashes it; scrolling down or "jump to latest" returns to the live timeline.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient, jumpTarget, openThreadId, timelineWindow, type Permalink } from '$lib/stores/matrix';
+import { setCurrentRoom, joinRoom } from './rooms';
+import { fetchRoomMessages } from './messages';
+
+const MATRIX_TO = 'https://matrix.to/#/';
+
+/** At most this many via servers in a link, as the spec recommends */
+const MAX_VIA = 3;
+
+/** How long to wait for a room just joined to come down sync */
+const JOIN_SYNC_TIMEOUT_MS = 30_000;
+
+/** Servers most of the room's members are on — what a client outside the room can join through */
+export function getViaServers(room: sdk.Room): string[] {
+	const counts = new Map<string, number>();
+	for (const member of room.getJoinedMembers()) {
+		const server = member.userId.split(':').slice(1).join(':');
+		counts.set(server, (counts.get(server) ?? 0) + 1);
+	}
+	return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_VIA).map(([server]) => server);
+}
+
+/** matrix.to permalink to an event */
+export function makePermalink(roomId: string, eventId: string): string {
+	const room = get(matrixClient)?.getRoom(roomId);
+	const via = room ? getViaServers(room).map(server => `via=${encodeURIComponent(server)}`).join('&') : '';
+	return `${MATRIX_TO}${encodeURIComponent(roomId)}/${encodeURIComponent(eventId)}${via ? `?${via}` : ''}`;
+}
+
+/** This app's own link to an event (the /room/<id>/event/<id> route) */
+export function makeAppLink(roomId: string, eventId: string): string {
+	return `${window.location.origin}/room/${encodeURIComponent(roomId)}/event/${encodeURIComponent(eventId)}`;
+}
+
+/** Parse a matrix.to or app event link. Null for anything else, including user and room-only links. */
+export function parsePermalink(href: string): Permalink | null {
+	let url: URL;
+	try {
+		url = new URL(href.replace(/&amp;/g, '&'));
+	} catch {
+		return null;
+	}
+
+	let parts: string[];
+	let query: URLSearchParams;
+	if (href.startsWith(MATRIX_TO)) {
+		const [path, search = ''] = url.hash.slice(2).split('?');
+		parts = path.split('/');
+		query = new URLSearchParams(search);
+	} else if (url.origin === window.location.origin) {
+		const match = url.pathname.match(/^\/room\/([^/]+)\/event\/([^/]+)\/?$/);
+		if (!match) return null;
+		parts = [match[1], match[2]];
+		query = url.searchParams;
+	} else {
+		return null;
+	}
+
+	try {
+		const [roomIdOrAlias, eventId] = parts.map(decodeURIComponent);
+		if (!/^[!#]/.test(roomIdOrAlias ?? '') || !eventId?.startsWith('$')) return null;
+		return { roomIdOrAlias, eventId, via: query.getAll('via') };
+	} catch {
+		return null;
+	}
+}
+
+/** Event permalinks in a message's body and formatted_body, one per event */
+export function findPermalinks(content: any): Permalink[] {
+	const text = `${content?.body ?? ''} ${content?.formatted_body ?? ''}`;
+	const found = new Map<string, Permalink>();
+	for (const [href] of text.matchAll(/https?:\/\/[^\s"'<>)]+/g)) {
+		const link = parsePermalink(href);
+		if (link && !found.has(link.eventId)) found.set(link.eventId, link);
+	}
+	return [...found.values()];
+}
+
+/** A joined room, once its join has come down sync */
+function waitForJoinedRoom(client: sdk.MatrixClient, roomId: string): Promise<sdk.Room> {
+	const room = client.getRoom(roomId);
+	if (room?.getMyMembership() === 'join') return Promise.resolve(room);
+
+	return new Promise((resolve, reject) => {
+		const onMembership = (room: sdk.Room, membership: string) => {
+			if (room.roomId !== roomId || membership !== 'join') return;
+			clearTimeout(timer);
+			client.off(sdk.RoomEvent.MyMembership, onMembership);
+			resolve(room);
+		};
+		const timer = setTimeout(() => {
+			client.off(sdk.RoomEvent.MyMembership, onMembership);
+			reject(new Error('Joined the room, but it has not synced yet'));
+		}, JOIN_SYNC_TIMEOUT_MS);
+		client.on(sdk.RoomEvent.MyMembership, onMembership);
+	});
+}
+
+/**
+ * Open a permalink: switch to its room, load the event's context and have
+ * MessageList scroll to and flash it. Thread replies open their thread.
+ * If we aren't in the room, `confirmJoin` is asked whether to join it through
+ * the link's via servers; throws if it says no (or isn't given) or the event
+ * can't be loaded.
+ */
+export async function openPermalink(link: Permalink, confirmJoin?: (roomIdOrAlias: string) => boolean): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const roomId = link.roomIdOrAlias.startsWith('#')
+		? (await client.getRoomIdForAlias(link.roomIdOrAlias)).room_id
+		: link.roomIdOrAlias;
+	let room = client.getRoom(roomId);
+	if (!room || room.getMyMembership() !== 'join') {
+		if (!confirmJoin?.(link.roomIdOrAlias)) throw new Error('You are not in that room');
+		await joinRoom(link.roomIdOrAlias, link.via);
+		room = await waitForJoinedRoom(client, roomId);
+	}
+
+	setCurrentRoom(roomId);
+
+	// Already in the live timeline — no window needed
+	let event = room.getLiveTimeline().getEvents().find(e => e.getId() === link.eventId);
+	if (!event) {
+		const timeline = await client.getEventTimeline(room.getUnfilteredTimelineSet(), link.eventId);
+		event = timeline?.getEvents().find(e => e.getId() === link.eventId);
+		if (!timeline || !event) throw new Error('Message not found');
+		if (timeline !== room.getLiveTimeline()) {
+			timelineWindow.set({ roomId, eventId: link.eventId, timeline });
+		}
+	}
+	await fetchRoomMessages(roomId);
+
+	const thread = event.getOriginalContent()['m.relates_to'];
+	if (thread?.rel_type === 'm.thread' && thread.event_id) {
+		openThreadId.set(thread.event_id);
+		jumpTarget.set({ id: thread.event_id, ts: Date.now() });
+	} else {
+		jumpTarget.set({ id: link.eventId, ts: Date.now() });
+	}
+}
+
+/** Leave the linked-event window and show the live timeline again */
+export async function returnToLive(roomId: string): Promise<void> {
+	timelineWindow.set(null);
+	await fetchRoomMessages(roomId);
+}
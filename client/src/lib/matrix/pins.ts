@@ -0,0 +1,110 @@
+/**
+ * Pinned Messages (m.room.pinned_events)
+ *
+ * The room state holds the list of pinned event IDs, oldest pin first. The
+ * pinnedMessages store mirrors it for the current room with each event
+ * resolved — from the loaded timeline when possible, otherwise fetched
+ * individually (pins are often old messages like rules or server addresses).
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient, currentRoomId, pinnedMessages, type Message } from '$lib/stores/matrix';
+
+const PINNED_EVENTS = sdk.EventType.RoomPinnedEvents;
+
+/** Events fetched because they weren't in the timeline: eventId → event (null if unavailable) */
+const fetchedPins = new Map<string, sdk.MatrixEvent | null>();
+
+/** Pinned event IDs from room state, oldest pin first */
+export function getPinnedEventIds(room: sdk.Room): string[] {
+	const pinned = room.currentState.getStateEvents(PINNED_EVENTS, '')?.getContent()?.pinned;
+	return Array.isArray(pinned) ? pinned.filter((id): id is string => typeof id === 'string') : [];
+}
+
+/** Whether the user's power level allows changing the room's pins */
+export function canPin(room: sdk.Room, userId: string): boolean {
+	return room.currentState.maySendStateEvent(PINNED_EVENTS, userId);
+}
+
+async function setPinnedEventIds(roomId: string, update: (ids: string[]) => string[]): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const room = client.getRoom(roomId);
+	if (!room) throw new Error('Room not found');
+
+	const pinned = update(getPinnedEventIds(room));
+	await client.sendStateEvent(roomId, PINNED_EVENTS, { pinned }, '');
+}
+
+/** Pin a message (appended, so it's the newest pin) */
+export async function pinMessage(roomId: string, eventId: string): Promise<void> {
+	await setPinnedEventIds(roomId, ids => [...ids.filter(id => id !== eventId), eventId]);
+}
+
+export async function unpinMessage(roomId: string, eventId: string): Promise<void> {
+	await setPinnedEventIds(roomId, ids => ids.filter(id => id !== eventId));
+}
+
+/** Find a pinned event in the room, or fetch (and decrypt) it once */
+async function resolvePinnedEvent(client: sdk.MatrixClient, room: sdk.Room, eventId: string): Promise<sdk.MatrixEvent | null> {
+	const loaded = room.findEventById(eventId);
+	if (loaded) return loaded;
+	if (fetchedPins.has(eventId)) return fetchedPins.get(eventId) ?? null;
+
+	let event: sdk.MatrixEvent | null = null;
+	try {
+		event = new sdk.MatrixEvent(await client.fetchRoomEvent(room.roomId, eventId));
+		await client.decryptEventIfNeeded(event);
+	} catch (error) {
+		console.warn('Pinned event unavailable:', eventId, error);
+	}
+	fetchedPins.set(eventId, event);
+	return event;
+}
+
+/**
+ * Rebuild the pinnedMessages store for a room. Pins that can't be loaded, or
+ * were redacted, are left out.
+ */
+export async function refreshPinnedMessages(roomId: string): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const room = client.getRoom(roomId);
+	if (!room) {
+		pinnedMessages.set([]);
+		return;
+	}
+
+	const events = await Promise.all(getPinnedEventIds(room).map(id => resolvePinnedEvent(client, room, id)));
+	if (get(currentRoomId) !== roomId) return; // switched rooms while fetching
+
+	pinnedMessages.set(
+		events
+			.filter((e): e is sdk.MatrixEvent => !!e && !e.isRedacted())
+			.map((e): Message => ({
+				id: e.getId() || '',
+				sender: e.getSender() || '',
+				content: e.getContent(),
+				timestamp: e.getTs(),
+				event: e,
+			}))
+	);
+}
+
+/**
+ * Set up pin listeners: refresh when the current room's pins change.
+ */
+export function setupPinListeners(client: sdk.MatrixClient): void {
+	client.on(sdk.RoomStateEvent.Events, (event: sdk.MatrixEvent) => {
+		if (event.getType() !== PINNED_EVENTS) return;
+		const roomId = event.getRoomId();
+		if (roomId && roomId === get(currentRoomId)) {
+			refreshPinnedMessages(roomId).catch(err => console.error('Failed to refresh pins:', err));
+		}
+	});
+
+	console.log('Pin listeners set up');
+}
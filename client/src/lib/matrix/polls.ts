@@ -0,0 +1,202 @@
+/**
+ * Matrix Polls (m.poll.start / m.poll.response / m.poll.end)
+ *
+ * We send the stable event types and read both those and the unstable
+ * org.matrix.msc3381 ones other clients still send. Votes and the end event
+ * are m.reference relations to the poll, tallied from room.relations the same
+ * way getMessageReactions() aggregates annotations — so, like reactions, only
+ * votes in the loaded timeline are counted.
+ *
+ * Counting rules (MSC3381): each user's latest response counts; responses
+ * after the poll ended are ignored; unknown answer IDs are dropped and extra
+ * selections beyond max_selections are cut off. Only the creator can end a poll.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient } from '$lib/stores/matrix';
+import { enqueueEvent } from './outbox';
+
+const POLL_START = ['m.poll.start', 'org.matrix.msc3381.poll.start'];
+const POLL_RESPONSE = ['m.poll.response', 'org.matrix.msc3381.poll.response'];
+const POLL_END = ['m.poll.end', 'org.matrix.msc3381.poll.end'];
+const KIND_DISCLOSED = ['m.poll.disclosed', 'org.matrix.msc3381.poll.disclosed'];
+
+export const MAX_POLL_ANSWERS = 20;
+
+export interface PollAnswer {
+	id: string;
+	text: string;
+}
+
+export interface Poll {
+	question: string;
+	answers: PollAnswer[];
+	/** Undisclosed polls only show results once ended */
+	disclosed: boolean;
+	maxSelections: number;
+}
+
+export interface PollTally {
+	/** Answer ID → number of votes */
+	counts: Record<string, number>;
+	/** Users whose vote counted */
+	voters: number;
+	/** The current user's counted answers */
+	myAnswers: string[];
+	ended: boolean;
+	/** Answer IDs with the most votes (once there are votes) */
+	winners: string[];
+}
+
+export function isPollStart(event: sdk.MatrixEvent): boolean {
+	return POLL_START.includes(event.getType());
+}
+
+/** Votes and end events — these change a poll's tally */
+export function isPollRelation(event: sdk.MatrixEvent): boolean {
+	return POLL_RESPONSE.includes(event.getType()) || POLL_END.includes(event.getType());
+}
+
+/** Read whichever of the stable/unstable keys is present */
+function pick(content: any, keys: string[]): any {
+	for (const key of keys) {
+		if (content?.[key] !== undefined) return content[key];
+	}
+	return undefined;
+}
+
+/**
+ * Text of an extensible-events text block: m.text is a string in older
+ * events and an array of representations in newer ones.
+ */
+function extensibleText(block: any): string {
+	const text = pick(block, ['m.text', 'org.matrix.msc1767.text', 'body']);
+	if (typeof text === 'string') return text;
+	if (Array.isArray(text)) {
+		const plain = text.find(t => !t?.mimetype || t.mimetype === 'text/plain') ?? text[0];
+		return typeof plain?.body === 'string' ? plain.body : '';
+	}
+	return '';
+}
+
+/** Parse a poll start event's content. Returns null if it isn't a usable poll. */
+export function parsePoll(content: any): Poll | null {
+	const poll = pick(content, POLL_START);
+	if (!poll || !Array.isArray(poll.answers)) return null;
+
+	const answers: PollAnswer[] = poll.answers
+		.map((a: any) => ({ id: typeof a?.id === 'string' ? a.id : '', text: extensibleText(a) }))
+		.filter((a: PollAnswer) => a.id)
+		.slice(0, MAX_POLL_ANSWERS);
+	if (answers.length === 0) return null;
+
+	const max = Number(poll.max_selections);
+	return {
+		question: extensibleText(poll.question),
+		answers,
+		disclosed: KIND_DISCLOSED.includes(poll.kind),
+		maxSelections: Number.isInteger(max) && max > 0 ? Math.min(max, answers.length) : 1,
+	};
+}
+
+/** Child events of a poll with any of the given types */
+function getPollRelations(room: sdk.Room, pollId: string, types: string[]): sdk.MatrixEvent[] {
+	return types.flatMap(type =>
+		room.relations.getChildEventsForEvent(pollId, 'm.reference', type)?.getRelations() ?? []
+	);
+}
+
+/**
+ * Tally the votes on a poll from its m.reference relations.
+ */
+export function getPollTally(event: sdk.MatrixEvent, poll: Poll): PollTally {
+	const tally: PollTally = { counts: {}, voters: 0, myAnswers: [], ended: false, winners: [] };
+	for (const answer of poll.answers) tally.counts[answer.id] = 0;
+
+	const client = get(matrixClient);
+	const pollId = event.getId();
+	const room = pollId ? client?.getRoom(event.getRoomId()) : null;
+	if (!client || !room || !pollId) return tally;
+
+	// The poll ends at the creator's first end event
+	const endTs = getPollRelations(room, pollId, POLL_END)
+		.filter(e => e.getSender() === event.getSender())
+		.reduce((min, e) => Math.min(min, e.getTs()), Infinity);
+	tally.ended = endTs !== Infinity;
+
+	// Latest response per user, up to the end
+	const latest = new Map<string, sdk.MatrixEvent>();
+	for (const response of getPollRelations(room, pollId, POLL_RESPONSE)) {
+		const sender = response.getSender();
+		if (!sender || response.isRedacted() || response.getTs() > endTs) continue;
+		const previous = latest.get(sender);
+		if (!previous || response.getTs() >= previous.getTs()) latest.set(sender, response);
+	}
+
+	const validIds = new Set(poll.answers.map(a => a.id));
+	const myUserId = client.getUserId();
+	for (const [sender, response] of latest) {
+		const picked: unknown = pick(response.getContent(), POLL_RESPONSE)?.answers;
+		if (!Array.isArray(picked)) continue;
+
+		const answers = [...new Set(picked.filter((id): id is string => typeof id === 'string' && validIds.has(id)))]
+			.slice(0, poll.maxSelections);
+		if (answers.length === 0) continue; // spoiled or withdrawn
+
+		tally.voters++;
+		for (const id of answers) tally.counts[id]++;
+		if (sender === myUserId) tally.myAnswers = answers;
+	}
+
+	const top = Math.max(...Object.values(tally.counts));
+	if (top > 0) tally.winners = poll.answers.filter(a => tally.counts[a.id] === top).map(a => a.id);
+
+	return tally;
+}
+
+/** Whether the user may end the poll (its creator) */
+export function canEndPoll(event: sdk.MatrixEvent, userId: string): boolean {
+	return event.getSender() === userId;
+}
+
+/**
+ * Create a poll (queued in the outbox like a message). The body carries a
+ * plain-text fallback for clients without poll support.
+ */
+export function createPoll(
+	roomId: string,
+	question: string,
+	answerTexts: string[],
+	options: { disclosed: boolean; maxSelections: number }
+): void {
+	const fallback = `${question}\n${answerTexts.map((text, i) => `${i + 1}. ${text}`).join('\n')}`;
+
+	enqueueEvent(roomId, 'message', sdk.M_POLL_START.name, {
+		'm.poll.start': {
+			question: { 'm.text': question },
+			kind: options.disclosed ? 'm.poll.disclosed' : 'm.poll.undisclosed',
+			max_selections: Math.min(Math.max(1, options.maxSelections), answerTexts.length),
+			answers: answerTexts.map((text, i) => ({ id: `a${i + 1}`, 'm.text': text })),
+		},
+		'm.text': fallback,
+		body: fallback,
+	});
+}
+
+/** Vote on a poll — replaces any earlier vote. An empty list withdraws it. */
+export function votePoll(roomId: string, pollId: string, answerIds: string[]): void {
+	enqueueEvent(roomId, 'poll', 'm.poll.response', {
+		'm.poll.response': { answers: answerIds },
+		'm.relates_to': { rel_type: 'm.reference', event_id: pollId },
+	}, pollId);
+}
+
+/** End a poll (creator only); results become final and visible to everyone */
+export function endPoll(roomId: string, pollId: string): void {
+	enqueueEvent(roomId, 'poll', sdk.M_POLL_END.name, {
+		'm.poll.end': {},
+		'm.text': 'The poll has ended.',
+		'm.relates_to': { rel_type: 'm.reference', event_id: pollId },
+	}, pollId);
+}
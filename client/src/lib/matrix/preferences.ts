@@ -0,0 +1,37 @@
+/**
+ * Device Preferences
+ *
+ * Settings that belong to this browser rather than the account (the settings
+ * page edits them). Persisted in localStorage and kept across logouts; unknown
+ * or missing keys fall back to DEFAULT_PREFERENCES.
+ */
+
+import { get } from 'svelte/store';
+import { preferences, DEFAULT_PREFERENCES, type Preferences } from '$lib/stores/matrix';
+
+const PREFERENCES_KEY = 'darkroot_preferences';
+
+/**
+ * Restore preferences from localStorage.
+ * Called once when the client starts.
+ */
+export function restorePreferences(): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		const stored = localStorage.getItem(PREFERENCES_KEY);
+		preferences.set({ ...DEFAULT_PREFERENCES, ...(stored ? JSON.parse(stored) : {}) });
+	} catch {
+		preferences.set(DEFAULT_PREFERENCES);
+	}
+}
+
+export function setPreference<K extends keyof Preferences>(key: K, value: Preferences[K]): void {
+	const next = { ...get(preferences), [key]: value };
+	preferences.set(next);
+	try {
+		localStorage.setItem(PREFERENCES_KEY, JSON.stringify(next));
+	} catch {
+		// Storage full or unavailable — the change still applies for this session
+	}
+}
@@ -4,7 +4,9 @@
 
 import * as sdk from 'matrix-js-sdk';
 import { get } from 'svelte/store';
-import { matrixClient } from '$lib/stores/matrix';
+import { matrixClient, outbox } from '$lib/stores/matrix';
+import { enqueue, enqueueEvent, discardOutboxItem } from './outbox';
+import { findPackImage } from './emotes';
 
 export interface Reaction {
 	key: string; // The reaction text (e.g., "Praise")
@@ -35,41 +37,64 @@ export const DARKROOT_REACTIONS = [
 	{ key: 'Homeward', label: 'GG',       title: 'Homeward Bone — going home',       image: '/emoji/homeward.png'        },
 ] as const;
 
-/** Look up DS emoji metadata by reaction key (for image rendering). */
-export function getDsEmoji(key: string) {
-	return DARKROOT_REACTIONS.find(r => r.key === key);
+/** A reaction shown as an image: a built-in icon (`image`, a static path) or a pack emoji (`mxc`) */
+export interface EmojiImage {
+	key: string;
+	label: string;
+	title: string;
+	image?: string;
+	/** Fetch with fetchMediaUrl() — mxc URLs need the authenticated media path */
+	mxc?: string;
+}
+
+/** Unstable MSC4027 field naming a custom emoji reaction, whose key is its mxc URL */
+const REACTION_SHORTCODE_KEY = 'com.beeper.reaction.shortcode';
+
+/**
+ * Look up emoji metadata by reaction key (for image rendering): the DS icons,
+ * or pack emoji (MSC2545), whose reactions use the image's mxc URL as the key.
+ */
+export function getDsEmoji(key: string): EmojiImage | undefined {
+	const builtin = DARKROOT_REACTIONS.find(r => r.key === key);
+	if (builtin) return builtin;
+	if (!key.startsWith('mxc://')) return undefined;
+
+	const image = findPackImage(key);
+	return {
+		key,
+		label: image?.shortcode ?? 'emoji',
+		title: image ? `:${image.shortcode}:` : 'Custom emoji',
+		mxc: key,
+	};
 }
 
 /**
- * Send a reaction to a message
+ * Send a reaction to a message (queued in the outbox). Pack emoji react with
+ * their mxc URL as the key and name their shortcode alongside it.
  */
 export async function sendReaction(
 	roomId: string,
 	eventId: string,
-	reactionKey: string
+	reactionKey: string,
+	shortcode?: string
 ): Promise<void> {
 	const client = get(matrixClient);
 	if (!client) {
 		throw new Error('Matrix client not initialized');
 	}
 
-	try {
-		await client.sendEvent(roomId, 'm.reaction', {
-			'm.relates_to': {
-				rel_type: 'm.annotation',
-				event_id: eventId,
-				key: reactionKey
-			}
-		});
-		console.log('Reaction sent:', reactionKey);
-	} catch (error) {
-		console.error('Failed to send reaction:', error);
-		throw error;
-	}
+	enqueueEvent(roomId, 'reaction', sdk.EventType.Reaction, {
+		'm.relates_to': {
+			rel_type: 'm.annotation',
+			event_id: eventId,
+			key: reactionKey
+		},
+		...(shortcode ? { [REACTION_SHORTCODE_KEY]: `:${shortcode}:` } : {}),
+	}, eventId);
 }
 
 /**
- * Remove a reaction from a message
+ * Remove a reaction from a message (queued in the outbox)
  */
 export async function removeReaction(
 	roomId: string,
@@ -80,13 +105,7 @@ export async function removeReaction(
 		throw new Error('Matrix client not initialized');
 	}
 
-	try {
-		await client.redactEvent(roomId, reactionEventId);
-		console.log('Reaction removed');
-	} catch (error) {
-		console.error('Failed to remove reaction:', error);
-		throw error;
-	}
+	enqueue({ kind: 'unreact', roomId, targetId: reactionEventId });
 }
 
 /**
@@ -159,7 +178,8 @@ export function getMessageReactions(event: sdk.MatrixEvent): Reaction[] {
 export async function toggleReaction(
 	roomId: string,
 	messageEvent: sdk.MatrixEvent,
-	reactionKey: string
+	reactionKey: string,
+	shortcode?: string
 ): Promise<void> {
 	const client = get(matrixClient);
 	if (!client) return;
@@ -191,9 +211,17 @@ export async function toggleReaction(
 		}
 	}
 
+	// Still waiting in the outbox? Toggling off just drops it
+	const queued = get(outbox).find(i => i.kind === 'reaction' && i.roomId === roomId && i.targetId === messageId
+		&& i.content?.['m.relates_to']?.key === reactionKey && (i.status === 'queued' || i.status === 'failed'));
+	if (queued) {
+		discardOutboxItem(queued.id);
+		return;
+	}
+
 	if (existingReactionId) {
 		await removeReaction(roomId, existingReactionId);
 	} else {
-		await sendReaction(roomId, messageId, reactionKey);
+		await sendReaction(roomId, messageId, reactionKey, shortcode);
 	}
 }
@@ -0,0 +1,107 @@
+/**
+ * Matrix Read Receipts and Markers
+ *
+ * Works out who has read how far in the current room, for the "seen by"
+ * avatars under messages, and which receipt type we send ourselves — m.read,
+ * or m.read.private when the user has turned off sharing in settings.
+ *
+ * Also the fully-read marker (m.fully_read): unlike the receipt, which we send
+ * as soon as a room is opened so its badge clears, it only moves once the user
+ * has scrolled past the new messages, and MessageList draws the "new messages"
+ * divider there.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient, currentRoomId, messages, preferences, readReceipts, timelineWindow, type ReadReceipt } from '$lib/stores/matrix';
+
+/** Receipt type to send for our own reads, per the user's privacy preference */
+export function getReadReceiptType(): sdk.ReceiptType {
+	return get(preferences).privateReadReceipts ? sdk.ReceiptType.ReadPrivate : sdk.ReceiptType.Read;
+}
+
+/** Events of the timeline MessageList shows (a linked-event window, or the live timeline) */
+function shownEvents(room: sdk.Room): sdk.MatrixEvent[] {
+	const window = get(timelineWindow);
+	return (window?.roomId === room.roomId ? window.timeline : room.getLiveTimeline()).getEvents();
+}
+
+/**
+ * The displayed message at or before an event in the live timeline — receipts
+ * and markers can point at events we don't show (reactions, state). Null if
+ * the event isn't loaded.
+ */
+function nearestMessage(
+	events: sdk.MatrixEvent[],
+	positions: Map<string | undefined, number>,
+	shown: Set<string>,
+	eventId: string
+): string | null {
+	let index = positions.get(eventId);
+	if (index === undefined) return null;
+	while (index >= 0 && !shown.has(events[index].getId()!)) index--;
+	return index >= 0 ? events[index].getId()! : null;
+}
+
+/**
+ * Recompute the readReceipts store for the current room. Each joined member
+ * (except us) is listed under the latest displayed message they've read;
+ * receipts on events we don't show (reactions, state) move back to the
+ * nearest message before them. Receipts older than the loaded timeline are left out.
+ */
+export function refreshReadReceipts(): void {
+	const client = get(matrixClient);
+	const roomId = get(currentRoomId);
+	const room = client && roomId ? client.getRoom(roomId) : null;
+	if (!client || !room) {
+		readReceipts.set({});
+		return;
+	}
+
+	const myUserId = client.getUserId();
+	const shown = new Set(get(messages).map(m => m.id));
+	const events = shownEvents(room);
+	const positions = new Map(events.map((event, index) => [event.getId(), index]));
+
+	const byMessage: Record<string, ReadReceipt[]> = {};
+	for (const member of room.getJoinedMembers()) {
+		if (member.userId === myUserId) continue;
+
+		const readUpTo = room.getEventReadUpTo(member.userId);
+		const messageId = readUpTo ? nearestMessage(events, positions, shown, readUpTo) : null;
+		if (!messageId) continue;
+
+		const ts = room.getReadReceiptForUserId(member.userId)?.data?.ts ?? 0;
+		(byMessage[messageId] ??= []).push({ userId: member.userId, ts });
+	}
+
+	for (const receipts of Object.values(byMessage)) {
+		receipts.sort((a, b) => b.ts - a.ts);
+	}
+	readReceipts.set(byMessage);
+}
+
+/** The room's fully-read marker: the event the user has read up to, if set */
+export function getFullyReadEventId(room: sdk.Room): string | null {
+	return room.getAccountData(sdk.EventType.FullyRead)?.getContent()?.event_id ?? null;
+}
+
+/**
+ * The displayed message the fully-read marker falls on (see nearestMessage),
+ * or null if the marker isn't in the loaded timeline.
+ */
+export function findMarkerMessage(room: sdk.Room, eventId: string, messageIds: Set<string>): string | null {
+	const events = shownEvents(room);
+	const positions = new Map(events.map((event, index) => [event.getId(), index]));
+	return nearestMessage(events, positions, messageIds, eventId);
+}
+
+/** Move the fully-read marker via the read-markers API (no receipt is sent) */
+export async function setFullyRead(roomId: string, eventId: string): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	// Local echoes have no server ID yet
+	if (eventId.startsWith('~')) return;
+	await client.setRoomReadMarkers(roomId, eventId);
+}
@@ -4,7 +4,9 @@
 
 import * as sdk from 'matrix-js-sdk';
 import { get } from 'svelte/store';
-import { matrixClient, rooms, currentRoomId } from '$lib/stores/matrix';
+import { matrixClient, rooms, spaces, currentRoomId, timelineWindow } from '$lib/stores/matrix';
+import { stripReplyFallback } from './messages';
+import { refreshReadReceipts } from './receipts';
 
 /**
  * Set up room event listeners
@@ -29,9 +31,10 @@ export function setupRoomListeners(client: sdk.MatrixClient) {
 		updateRoomList(client);
 	});
 
-	// Update when read receipts change so unread badges re-render
-	client.on(sdk.RoomEvent.Receipt, (_event: sdk.MatrixEvent, _room: sdk.Room) => {
+	// Update when read receipts change so unread badges (and "seen by" in the open room) re-render
+	client.on(sdk.RoomEvent.Receipt, (_event: sdk.MatrixEvent, room: sdk.Room) => {
 		updateRoomList(client);
+		if (room.roomId === get(currentRoomId)) refreshReadReceipts();
 	});
 
 	// Initial room list update
@@ -39,7 +42,7 @@ export function setupRoomListeners(client: sdk.MatrixClient) {
 }
 
 /**
- * Update the rooms store with current room list
+ * Update the rooms and spaces stores with the current room list
  */
 export function updateRoomList(client: sdk.MatrixClient) {
 	const roomList = client.getRooms();
@@ -51,7 +54,8 @@ export function updateRoomList(client: sdk.MatrixClient) {
 		return bTimestamp - aTimestamp;
 	});
 
-	rooms.set(roomList);
+	rooms.set(roomList.filter(room => !room.isSpaceRoom()));
+	spaces.set(roomList.filter(room => room.isSpaceRoom()).sort((a, b) => getRoomName(a).localeCompare(getRoomName(b))));
 }
 
 /**
@@ -80,7 +84,7 @@ export function getLastMessagePreview(room: sdk.Room): string {
 	for (let i = events.length - 1; i >= 0; i--) {
 		const event = events[i];
 		if (event.getType() === 'm.room.message') {
-			const content = event.getContent();
+			const content = stripReplyFallback(event.getContent());
 			const body = content.body || '';
 
 			// Truncate long messages
@@ -103,13 +107,14 @@ export function getUnreadCount(room: sdk.Room): number {
 }
 
 /**
- * Join a room by ID or alias
+ * Join a room by ID or alias. Rooms on other servers need `viaServers` to join
+ * through (e.g. the via list of a space's m.space.child event).
  */
-export async function joinRoom(roomIdOrAlias: string): Promise<sdk.Room> {
+export async function joinRoom(roomIdOrAlias: string, viaServers?: string[]): Promise<sdk.Room> {
 	const client = get(matrixClient);
 	if (!client) throw new Error('Matrix client not initialized');
 
-	const result = await client.joinRoom(roomIdOrAlias);
+	const result = await client.joinRoom(roomIdOrAlias, viaServers?.length ? { viaServers } : undefined);
 	return client.getRoom(result.roomId)!;
 }
 
@@ -237,10 +242,10 @@ export async function inviteUser(roomId: string, userId: string): Promise<void>
 /**
  * Kick a user from a room
  */
-export async function kickUser(roomId: string, userId: string): Promise<void> {
+export async function kickUser(roomId: string, userId: string, reason?: string): Promise<void> {
 	const client = get(matrixClient);
 	if (!client) throw new Error('Matrix client not initialized');
-	await client.kick(roomId, userId);
+	await client.kick(roomId, userId, reason);
 }
 
 /**
@@ -285,14 +290,14 @@ export async function inviteAllServerUsersToRoom(
 }
 
 /**
- * List public rooms on the server (room directory)
+ * List public rooms on the server (room directory), leaving out spaces
  */
 export async function listPublicRooms(): Promise<{ roomId: string; name: string; topic: string; numMembers: number; avatarUrl: string | null }[]> {
 	const client = get(matrixClient);
 	if (!client) throw new Error('Matrix client not initialized');
 
 	const response = await client.publicRooms({});
-	const chunk = response.chunk || [];
+	const chunk = (response.chunk || []).filter((room: any) => room.room_type !== sdk.RoomType.Space);
 
 	return chunk.map((room: any) => ({
 		roomId: room.room_id,
@@ -348,8 +353,9 @@ export async function leaveRoom(roomId: string): Promise<void> {
 }
 
 /**
- * Set the current active room
+ * Set the current active room (always opening on its live timeline)
  */
 export function setCurrentRoom(roomId: string | null) {
+	timelineWindow.set(null);
 	currentRoomId.set(roomId);
 }
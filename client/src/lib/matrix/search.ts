@@ -0,0 +1,231 @@
+/**
+ * Matrix Message Search
+ *
+ * Unencrypted rooms are searched on the server (/search). The server can't read
+ * encrypted rooms, so those — and any room whose server search fails — are
+ * searched locally over the events already loaded into the room's timeline
+ * (all of them once loadFullHistory() has run, e.g. from the stats panel).
+ *
+ * Filters the server doesn't support (date range, has-link, has-image) are
+ * applied to both kinds of result the same way.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient } from '$lib/stores/matrix';
+import { getPlainBody } from './messages';
+import { getThreadRootId } from './threads';
+
+export interface SearchFilters {
+	/** User ID, or part of a display name */
+	sender?: string;
+	/** Timestamps (ms), inclusive */
+	from?: number;
+	to?: number;
+	hasLink?: boolean;
+	hasImage?: boolean;
+}
+
+export interface SearchResult {
+	roomId: string;
+	eventId: string;
+	sender: string;
+	timestamp: number;
+	/** Plain-text body, for the snippet */
+	body: string;
+	/** Thread root, when the match is a thread reply */
+	threadRootId: string | null;
+}
+
+export interface SearchOutcome {
+	results: SearchResult[];
+	/** Words to highlight: the query's terms plus the server's stemmed matches */
+	terms: string[];
+	/** Rooms searched locally (encrypted, or the server search failed) */
+	localRooms: number;
+	serverFailed: boolean;
+}
+
+const MAX_RESULTS = 100;
+const MAX_SERVER_PAGES = 3;
+
+/** Split a query into lowercase terms; every term must match */
+function toTerms(query: string): string[] {
+	return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/** Edits are indexed too — skip them, the original event carries the current text */
+function isSearchable(event: sdk.MatrixEvent): boolean {
+	return event.getType() === 'm.room.message'
+		&& !event.isRedacted()
+		&& event.getOriginalContent()?.['m.relates_to']?.rel_type !== 'm.replace';
+}
+
+function toResult(event: sdk.MatrixEvent): SearchResult {
+	return {
+		roomId: event.getRoomId() || '',
+		eventId: event.getId() || '',
+		sender: event.getSender() || '',
+		timestamp: event.getTs(),
+		body: getPlainBody(event.getContent()),
+		threadRootId: getThreadRootId(event.getOriginalContent()),
+	};
+}
+
+/**
+ * Resolve the sender filter to user IDs using the members of the searched
+ * rooms. A full user ID is used as is.
+ */
+function resolveSenders(rooms: sdk.Room[], sender: string): string[] {
+	if (/^@[^:\s]+:\S+$/.test(sender)) return [sender];
+
+	const q = sender.toLowerCase().replace(/^@/, '');
+	const ids = new Set<string>();
+	for (const room of rooms) {
+		for (const member of room.getMembers()) {
+			if (member.name.toLowerCase().includes(q) || member.userId.toLowerCase().includes(q)) {
+				ids.add(member.userId);
+			}
+		}
+	}
+	return [...ids];
+}
+
+/** The filters the server can't apply */
+function passesFilters(event: sdk.MatrixEvent, filters: SearchFilters, senders: string[] | null): boolean {
+	if (senders && !senders.includes(event.getSender() || '')) return false;
+
+	const ts = event.getTs();
+	if (filters.from !== undefined && ts < filters.from) return false;
+	if (filters.to !== undefined && ts > filters.to) return false;
+
+	const content = event.getContent();
+	if (filters.hasImage && content.msgtype !== 'm.image') return false;
+	if (filters.hasLink && !/https?:\/\//i.test(`${content.body ?? ''} ${content.formatted_body ?? ''}`)) return false;
+
+	return true;
+}
+
+/** Search one room's loaded timeline */
+function searchLocal(room: sdk.Room, terms: string[], filters: SearchFilters, senders: string[] | null): sdk.MatrixEvent[] {
+	return room.getLiveTimeline().getEvents().filter(event => {
+		if (!isSearchable(event) || !passesFilters(event, filters, senders)) return false;
+		const body = getPlainBody(event.getContent()).toLowerCase();
+		return terms.every(term => body.includes(term));
+	});
+}
+
+/** Search rooms on the server. Returns the matching events and the server's highlight words. */
+async function searchServer(
+	client: sdk.MatrixClient,
+	rooms: sdk.Room[],
+	query: string,
+	filters: SearchFilters,
+	senders: string[] | null
+): Promise<{ events: sdk.MatrixEvent[]; highlights: string[] }> {
+	const filter: sdk.IRoomEventFilter = { rooms: rooms.map(r => r.roomId), types: ['m.room.message'] };
+	if (senders) filter.senders = senders;
+	if (filters.hasImage) filter.contains_url = true;
+
+	const events: sdk.MatrixEvent[] = [];
+	const highlights = new Set<string>();
+	let nextBatch: string | undefined;
+
+	for (let page = 0; page < MAX_SERVER_PAGES && events.length < MAX_RESULTS; page++) {
+		const response = await client.search({
+			body: { search_categories: { room_events: { search_term: query, filter, order_by: sdk.SearchOrderBy.Recent } } },
+			next_batch: nextBatch,
+		});
+		const roomEvents = response.search_categories.room_events;
+
+		for (const h of roomEvents.highlights ?? []) highlights.add(h.toLowerCase());
+		for (const { result } of roomEvents.results ?? []) {
+			const event = new sdk.MatrixEvent(result);
+			if (isSearchable(event) && passesFilters(event, filters, senders)) events.push(event);
+		}
+
+		nextBatch = roomEvents.next_batch;
+		if (!nextBatch) break;
+	}
+
+	return { events, highlights: [...highlights] };
+}
+
+/**
+ * Search for messages in one room, or in every joined room when roomId is
+ * omitted. An empty query with filters lists everything the filters match
+ * (locally — the server needs a search term). Results are newest first.
+ */
+export async function searchMessages(query: string, filters: SearchFilters = {}, roomId?: string): Promise<SearchOutcome> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const rooms = roomId
+		? [client.getRoom(roomId)].filter((r): r is sdk.Room => !!r)
+		: client.getRooms().filter(r => r.getMyMembership() === 'join');
+
+	const terms = toTerms(query);
+	const senders = filters.sender?.trim() ? resolveSenders(rooms, filters.sender.trim()) : null;
+	const outcome: SearchOutcome = { results: [], terms, localRooms: 0, serverFailed: false };
+	if (senders?.length === 0) return outcome;
+
+	let localRooms = terms.length > 0 ? rooms.filter(r => r.hasEncryptionStateEvent()) : rooms;
+	const serverRooms = rooms.filter(r => !localRooms.includes(r));
+	const found: sdk.MatrixEvent[] = [];
+
+	if (serverRooms.length > 0) {
+		try {
+			const { events, highlights } = await searchServer(client, serverRooms, query.trim(), filters, senders);
+			found.push(...events);
+			outcome.terms = [...new Set([...terms, ...highlights])];
+		} catch (error) {
+			console.warn('Server search failed, searching loaded history instead:', error);
+			outcome.serverFailed = true;
+			localRooms = rooms;
+		}
+	}
+
+	for (const room of localRooms) {
+		found.push(...searchLocal(room, terms, filters, senders));
+	}
+	outcome.localRooms = localRooms.length;
+
+	// Newest first, without duplicates (a room can be searched both ways after a failure)
+	const seen = new Set<string>();
+	outcome.results = found
+		.sort((a, b) => b.getTs() - a.getTs())
+		.filter(e => {
+			const id = e.getId();
+			if (!id || seen.has(id)) return false;
+			seen.add(id);
+			return true;
+		})
+		.slice(0, MAX_RESULTS)
+		.map(toResult);
+
+	return outcome;
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * HTML snippet of a result body with the matched terms wrapped in <mark>.
+ * Long bodies are cut to a window around the first match.
+ */
+export function highlightMatches(text: string, terms: string[], maxLength = 200): string {
+	let snippet = text;
+	if (snippet.length > maxLength) {
+		const lower = snippet.toLowerCase();
+		const first = Math.min(...terms.map(t => lower.indexOf(t)).filter(i => i >= 0), Infinity);
+		const start = first === Infinity ? 0 : Math.max(0, first - 60);
+		snippet = (start > 0 ? '…' : '') + snippet.slice(start, start + maxLength) + (start + maxLength < text.length ? '…' : '');
+	}
+
+	if (terms.length === 0) return escapeHtml(snippet);
+
+	// Match on the raw text, escape each piece, so terms like "amp" can't hit entities
+	const pattern = new RegExp(`(${terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+	return snippet.split(pattern).map((part, i) => i % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)).join('');
+}
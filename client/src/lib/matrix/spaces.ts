@@ -0,0 +1,219 @@
+/**
+ * Matrix Spaces
+ *
+ * A space is a room (type m.space) whose m.space.child state events, one per
+ * state key = child room ID, list its rooms and subspaces; an event with no
+ * `via` means the child was removed. Rooms may also point back with
+ * m.space.parent, which only counts when its sender could also add the room
+ * from the space's side. The space rail filters the room list to a space's rooms
+ * (subspaces included); rooms in it the user hasn't joined come from the
+ * server's /hierarchy API.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient, currentSpaceId } from '$lib/stores/matrix';
+import { updateRoomList } from './rooms';
+import { getViaServers } from './permalinks';
+
+const SPACE_CHILD = sdk.EventType.SpaceChild;
+const SPACE_PARENT = sdk.EventType.SpaceParent;
+const HIERARCHY_PAGE = 50;
+
+/** A room from a space's /hierarchy, joined or not */
+export interface HierarchyRoom {
+	roomId: string;
+	name: string;
+	topic: string;
+	numMembers: number;
+	avatarUrl: string | null;
+	isSpace: boolean;
+	/** Servers to join through, from the parent's m.space.child event */
+	via: string[];
+}
+
+/** The server part of a user or room ID */
+function serverName(id: string): string {
+	return id.split(':').slice(1).join(':');
+}
+
+/** Servers to reach a room through: its members' servers, else our own */
+function viaFor(client: sdk.MatrixClient, roomId: string): string[] {
+	const room = client.getRoom(roomId);
+	const via = room ? getViaServers(room) : [];
+	return via.length > 0 ? via : [client.getDomain()!];
+}
+
+/** Child room IDs of a space (removed children have no `via`) */
+export function getSpaceChildIds(space: sdk.Room): string[] {
+	return space.currentState.getStateEvents(SPACE_CHILD)
+		.filter(event => Array.isArray(event.getContent()?.via) && event.getContent().via.length > 0)
+		.map(event => event.getStateKey()!)
+		.filter(Boolean);
+}
+
+/**
+ * IDs of every room in a space: its children, rooms naming it as their
+ * m.space.parent, and the same for its subspaces (cycles are skipped). A
+ * parent claim is ignored unless its sender may set the space's children,
+ * so anyone can't pull their room into someone else's space.
+ */
+export function getSpaceRoomIds(spaceId: string): Set<string> {
+	const client = get(matrixClient);
+	const ids = new Set<string>();
+	if (!client) return ids;
+
+	const claimed = new Map<string, string[]>();
+	for (const room of client.getRooms()) {
+		for (const event of room.currentState.getStateEvents(SPACE_PARENT)) {
+			const parentId = event.getStateKey();
+			const parent = parentId ? client.getRoom(parentId) : null;
+			if (parentId && parent && Array.isArray(event.getContent()?.via)
+				&& parent.currentState.maySendStateEvent(SPACE_CHILD, event.getSender() ?? '')) {
+				claimed.set(parentId, [...(claimed.get(parentId) ?? []), room.roomId]);
+			}
+		}
+	}
+
+	const visited = new Set<string>();
+	const visit = (id: string) => {
+		if (visited.has(id)) return;
+		visited.add(id);
+		const space = client.getRoom(id);
+		const children = [...(space ? getSpaceChildIds(space) : []), ...(claimed.get(id) ?? [])];
+		for (const childId of children) {
+			ids.add(childId);
+			if (client.getRoom(childId)?.isSpaceRoom()) visit(childId);
+		}
+	};
+	visit(spaceId);
+	return ids;
+}
+
+/** Spaces (that the user is in) listing a room as a child */
+export function getParentSpaces(roomId: string): sdk.Room[] {
+	const client = get(matrixClient);
+	if (!client) return [];
+	return client.getRooms().filter(room =>
+		room.isSpaceRoom() && room.getMyMembership() === 'join' && getSpaceChildIds(room).includes(roomId)
+	);
+}
+
+/** Whether the user's power level allows changing a space's children */
+export function canManageSpace(space: sdk.Room, userId: string): boolean {
+	return space.currentState.maySendStateEvent(SPACE_CHILD, userId);
+}
+
+/**
+ * Create a space and return its ID (the room may not have synced yet). Like
+ * Element, only admins can post in the space room itself — it's a container,
+ * not a chat.
+ */
+export async function createSpace(name: string, topic?: string, visibility: 'public' | 'private' = 'public'): Promise<string> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const isPublic = visibility === 'public';
+	const result = await client.createRoom({
+		name,
+		topic,
+		visibility: (isPublic ? 'public' : 'private') as sdk.Visibility,
+		preset: (isPublic ? 'public_chat' : 'private_chat') as sdk.Preset,
+		creation_content: { type: sdk.RoomType.Space },
+		power_level_content_override: { events_default: 100 },
+		initial_state: [
+			{
+				type: 'm.room.history_visibility',
+				state_key: '',
+				content: { history_visibility: isPublic ? 'world_readable' : 'invited' },
+			},
+		],
+	});
+
+	return result.room_id;
+}
+
+/**
+ * Add a room to a space. The room also gets an m.space.parent pointing back
+ * when the user may set it there.
+ */
+export async function addSpaceChild(spaceId: string, roomId: string): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	await client.sendStateEvent(spaceId, SPACE_CHILD, { via: viaFor(client, roomId) }, roomId);
+
+	const room = client.getRoom(roomId);
+	if (room?.currentState.maySendStateEvent(SPACE_PARENT, client.getUserId() || '')) {
+		await client.sendStateEvent(roomId, SPACE_PARENT, { via: viaFor(client, spaceId), canonical: true }, spaceId);
+	}
+}
+
+/** Remove a room from a space (empty content), and its m.space.parent if we set one */
+export async function removeSpaceChild(spaceId: string, roomId: string): Promise<void> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	await client.sendStateEvent(spaceId, SPACE_CHILD, {}, roomId);
+
+	const room = client.getRoom(roomId);
+	if (room?.currentState.getStateEvents(SPACE_PARENT, spaceId)
+		&& room.currentState.maySendStateEvent(SPACE_PARENT, client.getUserId() || '')) {
+		await client.sendStateEvent(roomId, SPACE_PARENT, {}, spaceId);
+	}
+}
+
+/**
+ * Rooms in a space's hierarchy (GET /hierarchy, following every page), not
+ * including the space itself. The server includes rooms the user hasn't
+ * joined, as long as they're allowed to see them.
+ */
+export async function fetchSpaceHierarchy(spaceId: string): Promise<HierarchyRoom[]> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const found: sdk.HierarchyRoom[] = [];
+	let from: string | undefined;
+	do {
+		const page = await client.getRoomHierarchy(spaceId, HIERARCHY_PAGE, undefined, false, from);
+		found.push(...page.rooms);
+		from = page.next_batch;
+	} while (from);
+
+	// Via servers come from the parents' child events
+	const via = new Map<string, string[]>();
+	for (const room of found) {
+		for (const child of room.children_state) {
+			if (Array.isArray(child.content?.via)) via.set(child.state_key, child.content.via);
+		}
+	}
+
+	return found
+		.filter(room => room.room_id !== spaceId)
+		.map(room => ({
+			roomId: room.room_id,
+			name: room.name || room.canonical_alias || 'Unnamed Room',
+			topic: room.topic || '',
+			numMembers: room.num_joined_members || 0,
+			avatarUrl: room.avatar_url || null,
+			isSpace: room.room_type === sdk.RoomType.Space,
+			via: via.get(room.room_id) ?? [serverName(room.room_id)],
+		}));
+}
+
+/**
+ * Set up space listeners: re-filter the room list when a space's children
+ * change, and fall back to all rooms if the selected space is left.
+ */
+export function setupSpaceListeners(client: sdk.MatrixClient): void {
+	client.on(sdk.RoomStateEvent.Events, (event: sdk.MatrixEvent) => {
+		const type = event.getType();
+		if (type === SPACE_CHILD || type === SPACE_PARENT) updateRoomList(client);
+	});
+
+	client.on(sdk.RoomEvent.MyMembership, (room: sdk.Room, membership: string) => {
+		if (room.roomId === get(currentSpaceId) && membership !== 'join') currentSpaceId.set(null);
+	});
+
+	console.log('Space listeners set up');
+}
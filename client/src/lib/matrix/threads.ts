@@ -0,0 +1,201 @@
+/**
+ * Matrix Threads (m.thread)
+ *
+ * The client runs without the SDK's thread support, so thread replies arrive
+ * in the live timeline like any other event. fetchRoomMessages() filters them
+ * out of the main list; this module groups them back up by root for the
+ * thread summaries and the thread panel.
+ *
+ * Per-thread unread state is tracked locally (rootId → timestamp of the last
+ * reply we've seen) and persisted in localStorage so it survives reloads.
+ */
+
+import * as sdk from 'matrix-js-sdk';
+import { get } from 'svelte/store';
+import { matrixClient, threadReads, type Message } from '$lib/stores/matrix';
+import { getReadReceiptType } from './receipts';
+
+const THREAD_READS_KEY = 'darkroot_threadReads';
+const THREAD_TRACKING_SINCE_KEY = 'darkroot_threadTrackingSince';
+
+/** Threads with no activity after this time count as read when we have no record for them */
+let trackingSince = 0;
+
+export interface ThreadSummary {
+	rootId: string;
+	count: number;
+	lastSender: string;
+	lastTimestamp: number;
+	unread: boolean;
+}
+
+/** Shape of the server's bundled m.thread aggregation on a root event */
+interface BundledThread {
+	count: number;
+	latest_event?: { sender?: string; origin_server_ts?: number };
+	current_user_participated?: boolean;
+}
+
+/**
+ * Get the thread root ID if this event is a thread reply.
+ * Pass the event's original content — an edit's m.new_content has no m.relates_to.
+ */
+export function getThreadRootId(content: any): string | null {
+	const relatesTo = content?.['m.relates_to'];
+	return relatesTo?.rel_type === 'm.thread' ? relatesTo.event_id || null : null;
+}
+
+/**
+ * Restore per-thread read state from localStorage.
+ * Called once when the client starts.
+ */
+export function restoreThreadReads(): void {
+	if (typeof window === 'undefined') return;
+
+	try {
+		const stored = localStorage.getItem(THREAD_READS_KEY);
+		threadReads.set(stored ? JSON.parse(stored) : {});
+
+		const since = Number(localStorage.getItem(THREAD_TRACKING_SINCE_KEY));
+		if (since > 0) {
+			trackingSince = since;
+		} else {
+			trackingSince = Date.now();
+			localStorage.setItem(THREAD_TRACKING_SINCE_KEY, String(trackingSince));
+		}
+	} catch {
+		threadReads.set({});
+	}
+}
+
+/**
+ * Mark a thread as read up to the given reply. Updates local state and sends
+ * a threaded read receipt so other clients agree.
+ */
+export function markThreadRead(rootId: string, lastReply: sdk.MatrixEvent | null): void {
+	const ts = lastReply?.getTs() ?? Date.now();
+	const reads = get(threadReads);
+	if ((reads[rootId] ?? 0) >= ts) return;
+
+	const updated = { ...reads, [rootId]: ts };
+	threadReads.set(updated);
+	try { localStorage.setItem(THREAD_READS_KEY, JSON.stringify(updated)); } catch {}
+
+	const client = get(matrixClient);
+	const id = lastReply?.getId();
+	if (client && lastReply && id && !id.startsWith('~')) {
+		// The SDK only adds thread_id itself when thread support is on, so pass it explicitly
+		client.sendReceipt(lastReply, getReadReceiptType(), { thread_id: rootId }).catch(() => {});
+	}
+}
+
+/**
+ * Summarise every thread with a root or reply in the live timeline.
+ * Combines the server's bundled aggregation on the root (covers replies that
+ * are older than what we've loaded) with replies seen live since.
+ */
+export function getThreadSummaries(room: sdk.Room, reads: Record<string, number>): Map<string, ThreadSummary> {
+	const client = get(matrixClient);
+	const myUserId = client?.getUserId() ?? null;
+	const events = room.getLiveTimeline().getEvents();
+
+	const repliesByRoot = new Map<string, sdk.MatrixEvent[]>();
+	for (const event of events) {
+		if (event.getType() !== 'm.room.message' || event.isRedacted()) continue;
+		const rootId = getThreadRootId(event.getOriginalContent());
+		if (!rootId) continue;
+		if (!repliesByRoot.has(rootId)) repliesByRoot.set(rootId, []);
+		repliesByRoot.get(rootId)!.push(event);
+	}
+
+	const summaries = new Map<string, ThreadSummary>();
+
+	const build = (rootId: string, bundled: BundledThread | undefined) => {
+		const live = repliesByRoot.get(rootId) ?? [];
+		const bundledTs = bundled?.latest_event?.origin_server_ts ?? 0;
+		const newer = live.filter(e => e.getTs() > bundledTs);
+
+		const count = (bundled?.count ?? 0) + newer.length;
+		if (count === 0) return;
+
+		const last = live[live.length - 1];
+		const useLive = last && last.getTs() >= bundledTs;
+		const lastSender = useLive ? last.getSender() || '' : bundled?.latest_event?.sender || '';
+		const lastTimestamp = useLive ? last.getTs() : bundledTs;
+
+		const readUpTo = reads[rootId] ?? trackingSince;
+		summaries.set(rootId, {
+			rootId,
+			count,
+			lastSender,
+			lastTimestamp,
+			unread: lastSender !== myUserId && lastTimestamp > readUpTo,
+		});
+	};
+
+	for (const event of events) {
+		const id = event.getId();
+		if (!id) continue;
+		const bundled = event.getServerAggregatedRelation<BundledThread>('m.thread');
+		if (bundled || repliesByRoot.has(id)) build(id, bundled);
+	}
+
+	return summaries;
+}
+
+/**
+ * Load every reply in a thread from the server (/relations), merged with any
+ * replies already in the live timeline. Sorted oldest first.
+ */
+export async function fetchThreadReplies(roomId: string, rootId: string): Promise<Message[]> {
+	const client = get(matrixClient);
+	if (!client) throw new Error('Matrix client not initialized');
+
+	const byId = new Map<string, sdk.MatrixEvent>();
+
+	let from: string | undefined;
+	for (let page = 0; page < 10; page++) {
+		const result = await client.relations(roomId, rootId, 'm.thread', null, { from, limit: 50 });
+		for (const event of result.events) {
+			const id = event.getId();
+			if (id) byId.set(id, event);
+		}
+		if (!result.nextBatch) break;
+		from = result.nextBatch;
+	}
+
+	// Live-timeline copies win — they carry applied edits and redactions
+	const room = client.getRoom(roomId);
+	for (const event of room?.getLiveTimeline().getEvents() ?? []) {
+		const id = event.getId();
+		if (id && getThreadRootId(event.getOriginalContent()) === rootId) byId.set(id, event);
+	}
+
+	return toMessages([...byId.values()]);
+}
+
+/**
+ * Thread replies currently in the live timeline (no network). Used to pick up
+ * new replies as they arrive while the thread panel is open.
+ */
+export function getLiveThreadReplies(room: sdk.Room, rootId: string): Message[] {
+	const events = room.getLiveTimeline().getEvents()
+		.filter(e => getThreadRootId(e.getOriginalContent()) === rootId);
+	return toMessages(events);
+}
+
+function toMessages(events: sdk.MatrixEvent[]): Message[] {
+	return events
+		.filter(event => {
+			if (event.getType() !== 'm.room.message' || event.isRedacted()) return false;
+			return event.getContent()['m.relates_to']?.rel_type !== 'm.replace';
+		})
+		.map(event => ({
+			id: event.getId() || '',
+			sender: event.getSender() || '',
+			content: event.getContent(),
+			timestamp: event.getTs(),
+			event,
+		}))
+		.sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -14,6 +14,42 @@ export interface Message {
 	event: sdk.MatrixEvent;
 }
 
+// Something we've sent (or will send) that the server hasn't echoed back yet
+export interface OutboxItem {
+	/** Local ID — also the transaction ID, so a resend after a reload can't duplicate */
+	id: string;
+	kind: 'message' | 'edit' | 'reaction' | 'unreact' | 'upload' | 'poll';
+	roomId: string;
+	createdAt: number;
+	status: 'queued' | 'sending' | 'failed' | 'sent';
+	error?: string;
+	/** Event type and content to send (uploads fill content in once the file is uploaded) */
+	eventType?: keyof sdk.TimelineEvents;
+	content?: Record<string, any>;
+	/** Event this edits, reacts to, votes on (poll), or (for unreact) the reaction to redact */
+	targetId?: string;
+	/** Upload payload */
+	file?: Blob;
+	fileName?: string;
+	/** Sent as the body, with the file name moved to `filename` (media captions) */
+	caption?: string;
+	msgtype?: 'm.image' | 'm.file' | 'm.audio' | 'm.video';
+	/** Poster/thumbnail uploaded alongside the file (its w/h go in info.thumbnail_info) */
+	thumbnail?: Blob;
+	/** Extra info (e.g. duration) and event fields (e.g. voice message markers) added after upload */
+	info?: Record<string, any>;
+	extra?: Record<string, any>;
+	/** Server event ID once sent; the item is dropped when it reaches the timeline */
+	eventId?: string;
+}
+
+/** Where a member has read up to, shown under that message ("seen by") */
+export interface ReadReceipt {
+	userId: string;
+	/** When they read it (0 if the server didn't say) */
+	ts: number;
+}
+
 // Matrix client instance
 export const matrixClient = writable<sdk.MatrixClient | null>(null);
 
@@ -24,10 +60,14 @@ export const currentUser = writable<sdk.User | null>(null);
 // Sync state
 export const syncState = writable<'PREPARED' | 'SYNCING' | 'ERROR'>('PREPARED');
 
-// Rooms
+// Rooms (spaces are kept apart, in the space rail)
 export const rooms = writable<sdk.Room[]>([]);
 export const currentRoomId = writable<string | null>(null);
 
+// Spaces the user is in or invited to, and the one the room list is filtered by (null: all rooms)
+export const spaces = writable<sdk.Room[]>([]);
+export const currentSpaceId = writable<string | null>(null);
+
 // Current room (derived)
 export const currentRoom = derived(
 	[rooms, currentRoomId],
@@ -54,3 +94,123 @@ export const userId = derived(
 
 // Cross-panel link highlighting: chat badge ↔ sidebar card
 export const highlightedLink = writable<{ id: string; ts: number; from: 'chat' | 'sidebar' } | null>(null);
+
+// Pinned messages in the current room, oldest pin first
+export const pinnedMessages = writable<Message[]>([]);
+
+// Event for MessageList to scroll to and flash — search results, pins (ts re-triggers the same ID)
+export const jumpTarget = writable<{ id: string; ts: number } | null>(null);
+
+// The current room is showing the window around a linked event (loaded via /context)
+// instead of the live timeline; null when following the live timeline
+export const timelineWindow = writable<{ roomId: string; eventId: string; timeline: sdk.EventTimeline } | null>(null);
+
+/** A link to one event: matrix.to or the app's /room/<id>/event/<id> route */
+export interface Permalink {
+	roomIdOrAlias: string;
+	eventId: string;
+	/** Servers to join through, from matrix.to's ?via= */
+	via: string[];
+}
+
+// Permalink opened through the /room/<id>/event/<id> route, waiting for rooms to sync
+export const pendingPermalink = writable<Permalink | null>(null);
+
+// Message the composer is currently replying to (set from the MessageList hover toolbar)
+export const replyTarget = writable<Message | null>(null);
+
+// Root event ID of the thread shown in the thread panel (null = closed)
+export const openThreadId = writable<string | null>(null);
+
+// Per-thread read state: root event ID → timestamp of the last reply seen
+export const threadReads = writable<Record<string, number>>({});
+
+// Unsent composer state for one room
+export interface ComposerDraft {
+	text: string;
+	/** Send as plain text (the composer's M↓ toggle is off) */
+	plain?: boolean;
+	/** Members picked from the @-autocomplete (see lib/matrix/mentions) */
+	mentions?: { userId: string; label: string }[];
+	/** Event being replied to */
+	replyToId?: string;
+	/** Message being edited inline, with the edited text so far */
+	edit?: { eventId: string; text: string };
+}
+
+// Per-room composer drafts (persisted in localStorage): room ID → draft
+export const drafts = writable<Record<string, ComposerDraft>>({});
+
+// Pending sends (persisted in IndexedDB), oldest first
+export const outbox = writable<OutboxItem[]>([]);
+
+// Read receipts in the current room: message ID → members whose latest read is that message, newest first
+export const readReceipts = writable<Record<string, ReadReceipt[]>>({});
+
+// Progress of uploads in flight (outbox item ID → bytes; not persisted)
+export const uploadProgress = writable<Record<string, { loaded: number; total: number }>>({});
+
+/** A saved message (kept in account data, so it follows the user across devices) */
+export interface Bookmark {
+	roomId: string;
+	eventId: string;
+	sender: string;
+	/** When the message was sent */
+	ts: number;
+	savedAt: number;
+	/** Message preview — left out for encrypted rooms, where it's resolved on demand */
+	preview?: string;
+	/** The user's own note on why they saved it */
+	note?: string;
+}
+
+// Saved messages across all rooms, newest bookmark first
+export const bookmarks = writable<Bookmark[]>([]);
+
+/** One image in an MSC2545 image pack */
+export interface PackImage {
+	shortcode: string;
+	/** mxc:// URL — fetched through the authenticated media path */
+	url: string;
+	body?: string;
+	/** 'emoticon' and/or 'sticker'; both when the pack doesn't say */
+	usage: string[];
+}
+
+/** An MSC2545 image pack: the user's own (account data) or a room's (state event) */
+export interface ImagePack {
+	/** 'user', or `<roomId>/<stateKey>` for room packs */
+	id: string;
+	name: string;
+	avatarUrl?: string;
+	roomId?: string;
+	stateKey?: string;
+	images: PackImage[];
+}
+
+// Image packs usable in the current room: the user's pack, the room's packs and any enabled globally
+export const imagePacks = writable<ImagePack[]>([]);
+
+// Recently used Unicode emoji, most recent first (synced through account data)
+export const recentEmoji = writable<string[]>([]);
+
+// Device-local preferences (persisted in localStorage, kept across logins)
+export interface Preferences {
+	/** Shrink photos over 2560px on their longest side before upload */
+	downscaleImages: boolean;
+	/** Send m.read.private instead of m.read, so others don't see how far we've read */
+	privateReadReceipts: boolean;
+	/** Show spoilers (text and media) without blurring them first */
+	revealSpoilers: boolean;
+	/** Skin tone for emoji picked from the picker: 0 for the default yellow, 1–5 light to dark */
+	emojiSkinTone: number;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+	downscaleImages: true,
+	privateReadReceipts: false,
+	revealSpoilers: false,
+	emojiSkinTone: 0,
+};
+
+export const preferences = writable<Preferences>(DEFAULT_PREFERENCES);
@@ -0,0 +1,158 @@
+/**
+ * BlurHash (https://blurha.sh) — a ~30 character string describing a blurred
+ * version of an image, sent in `info` (MSC2448) so receivers can show a
+ * placeholder before the real image has loaded.
+ *
+ * A small self-contained implementation of the reference algorithm: encode()
+ * for uploads, decode() / blurhashToDataUrl() for display.
+ */
+
+const BASE83 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+function encode83(value: number, length: number): string {
+	let result = '';
+	for (let i = 1; i <= length; i++) {
+		result += BASE83[Math.floor(value / 83 ** (length - i)) % 83];
+	}
+	return result;
+}
+
+function decode83(text: string): number {
+	let value = 0;
+	for (const char of text) {
+		const digit = BASE83.indexOf(char);
+		if (digit < 0) throw new Error('Invalid blurhash');
+		value = value * 83 + digit;
+	}
+	return value;
+}
+
+function sRGBToLinear(value: number): number {
+	const v = value / 255;
+	return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+}
+
+function linearTosRGB(value: number): number {
+	const v = Math.max(0, Math.min(1, value));
+	return Math.round(v <= 0.0031308 ? v * 12.92 * 255 : (1.055 * v ** (1 / 2.4) - 0.055) * 255);
+}
+
+function signPow(value: number, exp: number): number {
+	return Math.sign(value) * Math.abs(value) ** exp;
+}
+
+/**
+ * Encode RGBA pixels. Keep the input small (e.g. 32×32) — the cost is
+ * width × height × components.
+ */
+export function encode(pixels: Uint8ClampedArray, width: number, height: number, componentsX = 4, componentsY = 3): string {
+	const factors: [number, number, number][] = [];
+	for (let y = 0; y < componentsY; y++) {
+		for (let x = 0; x < componentsX; x++) {
+			const normalisation = x === 0 && y === 0 ? 1 : 2;
+			let r = 0, g = 0, b = 0;
+			for (let j = 0; j < height; j++) {
+				for (let i = 0; i < width; i++) {
+					const basis = normalisation * Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+					const offset = 4 * (j * width + i);
+					r += basis * sRGBToLinear(pixels[offset]);
+					g += basis * sRGBToLinear(pixels[offset + 1]);
+					b += basis * sRGBToLinear(pixels[offset + 2]);
+				}
+			}
+			const scale = 1 / (width * height);
+			factors.push([r * scale, g * scale, b * scale]);
+		}
+	}
+
+	const [dc, ...ac] = factors;
+	let hash = encode83((componentsX - 1) + (componentsY - 1) * 9, 1);
+
+	let maxValue = 1;
+	if (ac.length > 0) {
+		const actualMax = Math.max(...ac.flat().map(Math.abs));
+		const quantisedMax = Math.max(0, Math.min(82, Math.floor(actualMax * 166 - 0.5)));
+		maxValue = (quantisedMax + 1) / 166;
+		hash += encode83(quantisedMax, 1);
+	} else {
+		hash += encode83(0, 1);
+	}
+
+	hash += encode83((linearTosRGB(dc[0]) << 16) + (linearTosRGB(dc[1]) << 8) + linearTosRGB(dc[2]), 4);
+
+	for (const [r, g, b] of ac) {
+		const quant = (v: number) => Math.max(0, Math.min(18, Math.floor(signPow(v / maxValue, 0.5) * 9 + 9.5)));
+		hash += encode83(quant(r) * 19 * 19 + quant(g) * 19 + quant(b), 2);
+	}
+
+	return hash;
+}
+
+/** Decode to RGBA pixels of the given size. Throws on a malformed hash. */
+export function decode(hash: string, width: number, height: number, punch = 1): Uint8ClampedArray<ArrayBuffer> {
+	if (hash.length < 6) throw new Error('Invalid blurhash');
+
+	const sizeFlag = decode83(hash[0]);
+	const componentsX = (sizeFlag % 9) + 1;
+	const componentsY = Math.floor(sizeFlag / 9) + 1;
+	if (hash.length !== 4 + 2 * componentsX * componentsY) throw new Error('Invalid blurhash');
+
+	const maxValue = ((decode83(hash[1]) + 1) / 166) * punch;
+	const colors: [number, number, number][] = [];
+
+	const dc = decode83(hash.substring(2, 6));
+	colors.push([sRGBToLinear(dc >> 16), sRGBToLinear((dc >> 8) & 255), sRGBToLinear(dc & 255)]);
+
+	for (let i = 1; i < componentsX * componentsY; i++) {
+		const value = decode83(hash.substring(4 + i * 2, 6 + i * 2));
+		const unquant = (q: number) => signPow((q - 9) / 9, 2) * maxValue;
+		colors.push([unquant(Math.floor(value / (19 * 19))), unquant(Math.floor(value / 19) % 19), unquant(value % 19)]);
+	}
+
+	const pixels = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let r = 0, g = 0, b = 0;
+			for (let j = 0; j < componentsY; j++) {
+				for (let i = 0; i < componentsX; i++) {
+					const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+					const color = colors[i + j * componentsX];
+					r += color[0] * basis;
+					g += color[1] * basis;
+					b += color[2] * basis;
+				}
+			}
+			const offset = 4 * (x + y * width);
+			pixels[offset] = linearTosRGB(r);
+			pixels[offset + 1] = linearTosRGB(g);
+			pixels[offset + 2] = linearTosRGB(b);
+			pixels[offset + 3] = 255;
+		}
+	}
+	return pixels;
+}
+
+/** Decoded placeholders: hash → data URL */
+const dataUrlCache = new Map<string, string | null>();
+
+/**
+ * A small PNG data URL of the blurred image, for use as an <img> placeholder
+ * (the browser scales it up smoothly). Null if the hash is malformed.
+ */
+export function blurhashToDataUrl(hash: string): string | null {
+	if (dataUrlCache.has(hash)) return dataUrlCache.get(hash)!;
+
+	let url: string | null = null;
+	try {
+		const size = 32;
+		const canvas = document.createElement('canvas');
+		canvas.width = size;
+		canvas.height = size;
+		canvas.getContext('2d')?.putImageData(new ImageData(decode(hash, size, size), size, size), 0, 0);
+		url = canvas.toDataURL();
+	} catch (error) {
+		console.warn('Could not decode blurhash:', error);
+	}
+	dataUrlCache.set(hash, url);
+	return url;
+}
@@ -0,0 +1,120 @@
+/**
+ * Prepare a photo for upload: strip metadata, optionally downscale, and work
+ * out the extras other clients use — dimensions, a thumbnail and a blurhash.
+ *
+ * Metadata is stripped by re-encoding through a canvas: the output carries no
+ * EXIF (GPS position, camera, timestamps), and createImageBitmap() has already
+ * applied the EXIF orientation, so the photo still displays the right way up.
+ * GIFs are sent as they are — re-encoding would lose the animation, and GIF
+ * has no EXIF. If the browser can't decode any other file, it isn't sent at
+ * all: the original may still carry its metadata.
+ */
+
+import { encode as encodeBlurhash } from './blurhash';
+
+/** Longest side of downscaled photos */
+const MAX_DIMENSION = 2560;
+
+/** Thumbnail box — the message list shows images at most 320×260 */
+const THUMBNAIL_WIDTH = 800;
+const THUMBNAIL_HEIGHT = 600;
+
+/** Blurhash is computed from a tiny copy of the image */
+const BLURHASH_SIZE = 32;
+
+export interface ProcessedImage {
+	file: Blob;
+	/** The file name, with the extension fixed if the format changed */
+	name: string;
+	w: number;
+	h: number;
+	thumbnail?: { blob: Blob; w: number; h: number };
+	blurhash?: string;
+}
+
+/** Formats we re-encode as themselves; anything else becomes WebP (JPEG as a fallback) */
+const REENCODE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp' };
+
+function fitWithin(w: number, h: number, maxW: number, maxH: number): { w: number; h: number } {
+	const scale = Math.min(1, maxW / w, maxH / h);
+	return { w: Math.max(1, Math.round(w * scale)), h: Math.max(1, Math.round(h * scale)) };
+}
+
+function draw(bitmap: ImageBitmap, w: number, h: number): HTMLCanvasElement {
+	const canvas = document.createElement('canvas');
+	canvas.width = w;
+	canvas.height = h;
+	const ctx = canvas.getContext('2d');
+	if (!ctx) throw new Error('Canvas unavailable');
+	ctx.imageSmoothingQuality = 'high';
+	ctx.drawImage(bitmap, 0, 0, w, h);
+	return canvas;
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+	return new Promise((resolve, reject) => {
+		canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode image')), type, quality);
+	});
+}
+
+function withExtension(name: string, type: string): string {
+	const extension = EXTENSIONS[type];
+	if (!extension) return name;
+	const base = name.replace(/\.[^./]+$/, '');
+	return `${base}.${extension}`;
+}
+
+/**
+ * Process an image file for upload. `downscale` shrinks photos whose longest
+ * side is over 2560px.
+ */
+export async function processImage(file: File, options: { downscale: boolean }): Promise<ProcessedImage> {
+	let bitmap: ImageBitmap;
+	try {
+		bitmap = await createImageBitmap(file);
+	} catch (error) {
+		// Nothing to strip from a GIF; anything else would go out with its metadata
+		if (file.type === 'image/gif') return { file, name: file.name, w: 0, h: 0 };
+		throw new Error(`Could not read image: ${error instanceof Error ? error.message : String(error)}`);
+	}
+
+	try {
+		const original = { w: bitmap.width, h: bitmap.height };
+		const result: ProcessedImage = { file, name: file.name, ...original };
+
+		// Strip metadata (and downscale) — not for GIFs, see above
+		if (file.type !== 'image/gif') {
+			const size = options.downscale ? fitWithin(original.w, original.h, MAX_DIMENSION, MAX_DIMENSION) : original;
+			const canvas = draw(bitmap, size.w, size.h);
+			const type = REENCODE_TYPES.has(file.type) ? file.type : 'image/webp';
+			// toBlob silently falls back to PNG for types it can't encode; prefer JPEG over that
+			let blob = await toBlob(canvas, type, 0.9);
+			if (blob.type !== type) blob = await toBlob(canvas, 'image/jpeg', 0.9);
+
+			result.file = blob;
+			result.name = withExtension(file.name, blob.type);
+			result.w = size.w;
+			result.h = size.h;
+		}
+
+		// Thumbnail, only when it's meaningfully smaller than the image
+		const thumb = fitWithin(result.w, result.h, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+		if (thumb.w < result.w) {
+			const thumbType = result.file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+			result.thumbnail = { blob: await toBlob(draw(bitmap, thumb.w, thumb.h), thumbType, 0.8), ...thumb };
+		}
+
+		const small = fitWithin(result.w, result.h, BLURHASH_SIZE, BLURHASH_SIZE);
+		const pixels = draw(bitmap, small.w, small.h).getContext('2d')!.getImageData(0, 0, small.w, small.h).data;
+		result.blurhash = encodeBlurhash(pixels, small.w, small.h);
+
+		return result;
+	} catch (error) {
+		// Metadata couldn't be stripped — don't send the original instead
+		throw new Error(`Could not process image: ${error instanceof Error ? error.message : String(error)}`);
+	} finally {
+		bitmap.close();
+	}
+}
@@ -0,0 +1,197 @@
+/**
+ * Markdown rendering for message bodies.
+ *
+ * Bodies are parsed with `marked` then run through DOMPurify with a small
+ * allow-list, so anything a sender types (or a remote client sends as
+ * formatted_body) can't inject script or styling into the page. The same
+ * rendering produces the formatted_body we send, so other clients see what we see.
+ *
+ * `||text||` renders as a spoiler (`<span data-mx-spoiler>`), which message
+ * views blur until it's clicked. `||reason|text||` gives it a content warning,
+ * sent as the attribute's value and shown over the blurred text.
+ *
+ * Custom emoji are `<img data-mx-emoticon src="mxc://…">`. The only images
+ * allowed are mxc ones, which browsers can't load — views swap in the
+ * authenticated media blob with showEmoticons(), so nothing is fetched from
+ * an arbitrary URL.
+ */
+
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+// Configure marked for safe rendering
+marked.setOptions({
+	breaks: true,
+	gfm: true,
+});
+
+/** `reason|` at the start of a spoiler: a content warning, kept short and on one line */
+const SPOILER_REASON = /^([^|\n]{1,100})\|(?=\S)/;
+
+function escapeAttribute(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// ||text|| → <span data-mx-spoiler>text</span>, ||reason|text|| → <span data-mx-spoiler="reason">text</span>
+marked.use({
+	extensions: [{
+		name: 'spoiler',
+		level: 'inline',
+		start: (src: string) => src.indexOf('||'),
+		tokenizer(src: string) {
+			const match = /^\|\|(?=\S)([\s\S]*?\S)\|\|/.exec(src);
+			if (!match) return undefined;
+			const reason = SPOILER_REASON.exec(match[1]);
+			const text = reason ? match[1].slice(reason[0].length) : match[1];
+			return { type: 'spoiler', raw: match[0], reason: reason?.[1].trim() ?? '', tokens: this.lexer.inlineTokens(text) };
+		},
+		renderer(token) {
+			const reason = token.reason ? `="${escapeAttribute(token.reason)}"` : '';
+			return `<span data-mx-spoiler${reason}>${this.parser.parseInline(token.tokens ?? [])}</span>`;
+		},
+	}],
+});
+
+/** shortcode → mxc URL, only while markdownToFormattedBody() renders composer text */
+let composerEmoticons: Record<string, string> = {};
+
+// :shortcode: → <img data-mx-emoticon>, for the custom emoji resolved for this message
+marked.use({
+	extensions: [{
+		name: 'emoticon',
+		level: 'inline',
+		// Only stop at known shortcodes — a bare ':' hint would split "https://" and break autolinks
+		start(src: string) {
+			for (const match of src.matchAll(/:([\w+-]{2,32}):/g)) {
+				if (composerEmoticons[match[1]]) return match.index;
+			}
+			return undefined;
+		},
+		tokenizer(src: string) {
+			const match = /^:([\w+-]{2,32}):/.exec(src);
+			if (!match || !composerEmoticons[match[1]]) return undefined;
+			return { type: 'emoticon', raw: match[0], shortcode: match[1], url: composerEmoticons[match[1]] };
+		},
+		renderer(token) {
+			const name = `:${token.shortcode}:`;
+			return `<img data-mx-emoticon src="${token.url}" alt="${name}" title="${name}" height="32">`;
+		},
+	}],
+});
+
+const MXC_URL = /^mxc:\/\/[\w.:-]+\/[\w-]+$/;
+
+/** Message images only ever show mxc media (custom emoji); any other source is dropped */
+function keepMxcImageSrc(node: Element, data: { attrName: string; attrValue: string; keepAttr: boolean; forceKeepAttr?: boolean }) {
+	if (node.nodeName !== 'IMG' || data.attrName !== 'src') return;
+	data.keepAttr = MXC_URL.test(data.attrValue);
+	data.forceKeepAttr = data.keepAttr || undefined;
+}
+
+/** Tags allowed in rendered message bodies */
+export const MESSAGE_ALLOWED_TAGS = ['p','br','b','i','em','strong','code','pre','blockquote','ul','ol','li','a','del','s','span','img'];
+
+/** Attributes allowed in rendered message bodies */
+export const MESSAGE_ALLOWED_ATTR = ['href','target','rel','data-mx-spoiler','data-mx-emoticon','src','alt','title','height'];
+
+/** Parse markdown then strip dangerous HTML (XSS prevention). */
+export function safeMarkdown(body: string): string {
+	return safeHtml(marked.parse(body) as string);
+}
+
+/** Strip dangerous HTML from an already-rendered formatted_body. */
+export function safeHtml(html: string): string {
+	// The image hook is only added for message bodies, not DOMPurify's other users
+	DOMPurify.addHook('uponSanitizeAttribute', keepMxcImageSrc);
+	try {
+		return DOMPurify.sanitize(html, {
+			ALLOWED_TAGS: MESSAGE_ALLOWED_TAGS,
+			ALLOWED_ATTR: MESSAGE_ALLOWED_ATTR,
+			ALLOW_DATA_ATTR: false,
+		});
+	} finally {
+		DOMPurify.removeHook('uponSanitizeAttribute', keepMxcImageSrc);
+	}
+}
+
+/**
+ * Render composer text to an org.matrix.custom.html formatted_body, with
+ * `emoticons` (shortcode → mxc URL) as inline custom emoji.
+ * Returns null when the markdown adds no formatting, so plain messages stay body-only.
+ */
+export function markdownToFormattedBody(text: string, emoticons: Record<string, string> = {}): string | null {
+	composerEmoticons = emoticons;
+	let html: string;
+	try {
+		html = safeMarkdown(text).trim();
+	} finally {
+		composerEmoticons = {};
+	}
+	const escaped = text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/\n/g, '<br>');
+	return html === `<p>${escaped}</p>` ? null : html;
+}
+
+/**
+ * Click handler for rendered bodies: reveals a hidden spoiler. Returns true
+ * when the click was used to reveal, so it shouldn't also follow a link inside.
+ */
+export function revealSpoiler(event: MouseEvent): boolean {
+	const spoiler = (event.target as HTMLElement).closest('[data-mx-spoiler]');
+	if (!spoiler || spoiler.classList.contains('spoiler--revealed')) return false;
+	spoiler.classList.add('spoiler--revealed');
+	event.preventDefault();
+	return true;
+}
+
+/** Text with ||spoilers|| masked, for previews (a content warning stays visible) */
+export function maskSpoilers(text: string): string {
+	return text.replace(/\|\|(?=\S)([\s\S]*?\S)\|\|/g, (_, inner: string) => {
+		const reason = SPOILER_REASON.exec(inner)?.[1].trim();
+		return reason ? `[spoiler: ${reason}]` : '[spoiler]';
+	});
+}
+
+/** Plain text of a formatted_body with its data-mx-spoiler spans masked, for previews */
+export function maskHtmlSpoilers(html: string): string {
+	// DOMParser documents are inert (no scripts, no loads) and we only read the text
+	const doc = new DOMParser().parseFromString(html, 'text/html');
+	doc.querySelectorAll('[data-mx-spoiler]').forEach(el => {
+		const reason = el.getAttribute('data-mx-spoiler')?.trim();
+		el.replaceWith(reason ? `[spoiler: ${reason}]` : '[spoiler]');
+	});
+	return doc.body.textContent ?? '';
+}
+
+/** mxc URLs of the custom emoji in a message's formatted_body */
+export function findEmoticonUrls(content: any): string[] {
+	const html = typeof content?.formatted_body === 'string' ? content.formatted_body : '';
+	if (!html.includes('<img')) return [];
+	// Inert document: nothing in it loads or runs, we only read attributes
+	const doc = new DOMParser().parseFromString(html, 'text/html');
+	const urls = new Set<string>();
+	doc.querySelectorAll('img[data-mx-emoticon]').forEach(img => {
+		const src = img.getAttribute('src');
+		if (src && MXC_URL.test(src)) urls.add(src);
+	});
+	return [...urls];
+}
+
+/**
+ * Point sanitized custom emoji at their fetched blobs (`urls`: mxc → blob URL);
+ * ones not fetched yet show as their :shortcode: text meanwhile. Works on the
+ * parsed document, so the alt text can only ever come back as text.
+ */
+export function showEmoticons(html: string, urls: Record<string, string | null>): string {
+	if (!html.includes('<img')) return html;
+	const doc = new DOMParser().parseFromString(html, 'text/html');
+	doc.querySelectorAll('img').forEach(img => {
+		const url = urls[img.getAttribute('src') ?? ''];
+		if (url) img.setAttribute('src', url);
+		else img.replaceWith(img.getAttribute('alt') ?? '');
+	});
+	return doc.body.innerHTML;
+}
@@ -127,3 +127,48 @@ export async function fetchAvatarUrl(
 ): Promise<string | null> {
 	return fetchMediaUrl(client, mxcUrl, 128, 128, 'crop');
 }
+
+/**
+ * Above this size, audio/video streams through the service worker instead of
+ * being downloaded whole into a blob first (see static/media-auth-sw.js).
+ */
+const STREAM_THRESHOLD = 8 * 1024 * 1024; // 8 MB
+
+/** Client whose token the service worker gets for streamed media requests */
+let streamClient: MatrixClient | null = null;
+let streamListenerAdded = false;
+
+/** Answer the service worker's token requests for <video>/<audio> media */
+function ensureStreamAuthListener(): void {
+	if (streamListenerAdded) return;
+	streamListenerAdded = true;
+	navigator.serviceWorker.addEventListener('message', (event) => {
+		if (event.data?.type !== 'darkroot:media-auth' || !event.ports[0]) return;
+		const token = streamClient?.getAccessToken();
+		event.ports[0].postMessage(token ? { homeserver: streamClient!.getHomeserverUrl(), token } : null);
+	});
+}
+
+/**
+ * URL to play an audio/video attachment from. Small files (or when no service
+ * worker is active, e.g. in dev) use the authenticated blob path; large ones get
+ * the plain download URL, which the service worker authenticates so the
+ * browser can stream it with ranged requests.
+ */
+export async function fetchPlaybackUrl(
+	client: MatrixClient,
+	mxcUrl: string,
+	size?: number
+): Promise<string | null> {
+	const parsed = parseMxc(mxcUrl);
+	if (!client || !parsed) return null;
+
+	const canStream = typeof navigator !== 'undefined' && !!navigator.serviceWorker?.controller;
+	if (!canStream || !size || size <= STREAM_THRESHOLD) {
+		return fetchMediaUrl(client, mxcUrl);
+	}
+
+	streamClient = client;
+	ensureStreamAuthListener();
+	return `${client.getHomeserverUrl()}/_matrix/client/v1/media/download/${parsed.serverName}/${parsed.mediaId}`;
+}
@@ -0,0 +1,116 @@
+/**
+ * Read duration/dimensions from audio and video files before upload, and grab
+ * a poster frame for videos — the metadata other clients expect in `info`.
+ *
+ * Everything here is best-effort: a file the browser can't decode still
+ * uploads, just without the extra info.
+ */
+
+/** Longest side of a generated video poster */
+const POSTER_MAX_SIZE = 800;
+
+/** Give up on a file the browser can't open within this long */
+const PROBE_TIMEOUT_MS = 10_000;
+
+export interface VideoInfo {
+	/** Milliseconds */
+	duration?: number;
+	w?: number;
+	h?: number;
+	poster?: { blob: Blob; w: number; h: number };
+}
+
+/** Load a media element from a file, resolving once metadata is available */
+function loadElement<T extends HTMLMediaElement>(element: T, file: File): Promise<T> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => reject(new Error('Timed out reading media')), PROBE_TIMEOUT_MS);
+		element.preload = 'metadata';
+		element.muted = true;
+		element.onloadedmetadata = () => {
+			clearTimeout(timer);
+			resolve(element);
+		};
+		element.onerror = () => {
+			clearTimeout(timer);
+			reject(new Error('Could not read media'));
+		};
+		element.src = URL.createObjectURL(file);
+	});
+}
+
+function release(element: HTMLMediaElement): void {
+	URL.revokeObjectURL(element.src);
+	element.removeAttribute('src');
+	element.load();
+}
+
+function toMs(seconds: number): number | undefined {
+	return Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : undefined;
+}
+
+/** Duration of an audio file in ms, if the browser can read it */
+export async function getAudioDuration(file: File): Promise<number | undefined> {
+	let audio: HTMLAudioElement | null = null;
+	try {
+		audio = await loadElement(document.createElement('audio'), file);
+		return toMs(audio.duration);
+	} catch (error) {
+		console.warn('Could not read audio duration:', error);
+		return undefined;
+	} finally {
+		if (audio) release(audio);
+	}
+}
+
+/** Seek and wait for the frame to be ready */
+function seek(video: HTMLVideoElement, time: number): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => reject(new Error('Timed out seeking')), PROBE_TIMEOUT_MS);
+		video.onseeked = () => {
+			clearTimeout(timer);
+			resolve();
+		};
+		video.currentTime = time;
+	});
+}
+
+/** Draw the current frame, scaled down, as a JPEG */
+function capturePoster(video: HTMLVideoElement): Promise<VideoInfo['poster']> {
+	const scale = Math.min(1, POSTER_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight));
+	const canvas = document.createElement('canvas');
+	canvas.width = Math.round(video.videoWidth * scale);
+	canvas.height = Math.round(video.videoHeight * scale);
+	canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+	return new Promise(resolve => {
+		canvas.toBlob(
+			blob => resolve(blob ? { blob, w: canvas.width, h: canvas.height } : undefined),
+			'image/jpeg',
+			0.8
+		);
+	});
+}
+
+/**
+ * Duration, dimensions and a poster frame (taken a little way in, so it's
+ * less likely to be a black fade-in) for a video file.
+ */
+export async function getVideoInfo(file: File): Promise<VideoInfo> {
+	let video: HTMLVideoElement | null = null;
+	const info: VideoInfo = {};
+	try {
+		video = await loadElement(document.createElement('video'), file);
+		info.duration = toMs(video.duration);
+		if (video.videoWidth && video.videoHeight) {
+			info.w = video.videoWidth;
+			info.h = video.videoHeight;
+			await seek(video, Math.min(1, (video.duration || 0) / 4));
+			info.poster = await capturePoster(video);
+		}
+	} catch (error) {
+		console.warn('Could not read video info:', error);
+	} finally {
+		if (video) release(video);
+	}
+	return info;
+}
@@ -0,0 +1,119 @@
+/**
+ * Microphone recording for voice messages.
+ *
+ * Wraps MediaRecorder and samples the input level while recording, which gives
+ * both a live level meter and the waveform sent with the message — no need to
+ * decode the recording afterwards.
+ */
+
+/** Container/codec preference; Opus in Ogg is what other Matrix clients send */
+const MIME_CANDIDATES = ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus', 'audio/mp4', 'audio/webm'];
+
+/** How often the input level is sampled */
+const SAMPLE_INTERVAL_MS = 50;
+
+/** Number of waveform points sent (MSC3245 suggests ~100) */
+const WAVEFORM_POINTS = 100;
+
+export interface Recording {
+	blob: Blob;
+	/** Base MIME type, without codec parameters */
+	mimetype: string;
+	durationMs: number;
+	/** Levels in the 0–1024 range MSC3245 uses */
+	waveform: number[];
+}
+
+export interface VoiceRecorder {
+	startedAt: number;
+	/** Current input level, 0–1 */
+	level(): number;
+	/** Finish recording */
+	stop(): Promise<Recording>;
+	/** Stop and throw the recording away */
+	cancel(): void;
+}
+
+export function isRecordingSupported(): boolean {
+	return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/** Average neighbouring samples down (or stretch them up) to a fixed number of points */
+function resample(samples: number[], points: number): number[] {
+	if (samples.length === 0) return new Array(points).fill(0);
+	return Array.from({ length: points }, (_, i) => {
+		const start = Math.floor((i * samples.length) / points);
+		const end = Math.max(start + 1, Math.floor(((i + 1) * samples.length) / points));
+		const slice = samples.slice(start, end);
+		return slice.reduce((sum, s) => sum + s, 0) / slice.length;
+	});
+}
+
+/**
+ * Ask for the microphone and start recording. Throws if permission is denied
+ * or there's no input device.
+ */
+export async function startRecording(): Promise<VoiceRecorder> {
+	const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+	const mimeType = MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type));
+	const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+	const audioContext = new AudioContext();
+	const analyser = audioContext.createAnalyser();
+	analyser.fftSize = 1024;
+	audioContext.createMediaStreamSource(stream).connect(analyser);
+	const buffer = new Float32Array(analyser.fftSize);
+
+	const chunks: Blob[] = [];
+	const samples: number[] = [];
+	let current = 0;
+
+	const sampler = setInterval(() => {
+		analyser.getFloatTimeDomainData(buffer);
+		let sum = 0;
+		for (const value of buffer) sum += value * value;
+		// RMS of speech rarely goes above ~0.3; scale so normal talking fills the range
+		current = Math.min(1, Math.sqrt(sum / buffer.length) * 3);
+		samples.push(current);
+	}, SAMPLE_INTERVAL_MS);
+
+	recorder.ondataavailable = event => {
+		if (event.data.size > 0) chunks.push(event.data);
+	};
+
+	function release() {
+		clearInterval(sampler);
+		stream.getTracks().forEach(track => track.stop());
+		audioContext.close().catch(() => {});
+	}
+
+	const startedAt = Date.now();
+	recorder.start();
+
+	return {
+		startedAt,
+		level: () => current,
+		stop: () => new Promise((resolve, reject) => {
+			recorder.onstop = () => {
+				release();
+				const type = recorder.mimeType || mimeType || 'audio/webm';
+				resolve({
+					blob: new Blob(chunks, { type }),
+					mimetype: type.split(';')[0],
+					durationMs: Date.now() - startedAt,
+					waveform: resample(samples, WAVEFORM_POINTS).map(level => Math.round(level * 1024)),
+				});
+			};
+			recorder.onerror = () => {
+				release();
+				reject(new Error('Recording failed'));
+			};
+			recorder.stop();
+		}),
+		cancel: () => {
+			recorder.onstop = null;
+			if (recorder.state !== 'inactive') recorder.stop();
+			release();
+		},
+	};
+}
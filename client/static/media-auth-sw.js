@@ -0,0 +1,59 @@
+/**
+ * Authenticated media streaming — imported into the Workbox service worker.
+ *
+ * <video>/<audio> can't send an Authorization header, so large media would
+ * otherwise have to be downloaded whole into a blob before playing. For media
+ * element requests to the authenticated media endpoint, this asks the page for
+ * the current access token and re-issues the request with it, passing the
+ * browser's Range header through so playback streams and seeks.
+ */
+
+const MEDIA_PATH = '/_matrix/client/v1/media/download/';
+
+/** Ask the page that made the request for { homeserver, token } */
+async function requestAuth(clientId) {
+	const client = clientId ? await self.clients.get(clientId) : null;
+	if (!client) return null;
+
+	return new Promise((resolve) => {
+		const channel = new MessageChannel();
+		const timer = setTimeout(() => resolve(null), 3000);
+		channel.port1.onmessage = (event) => {
+			clearTimeout(timer);
+			resolve(event.data || null);
+		};
+		client.postMessage({ type: 'darkroot:media-auth' }, [channel.port2]);
+	});
+}
+
+/** Whether a URL is the download endpoint on the homeserver itself (same origin, under its base path) */
+function isHomeserverMedia(url, homeserver) {
+	let base;
+	try {
+		base = new URL(homeserver);
+	} catch {
+		return false;
+	}
+	const target = new URL(url);
+	return target.origin === base.origin
+		&& target.pathname.startsWith(base.pathname.replace(/\/$/, '') + MEDIA_PATH);
+}
+
+self.addEventListener('fetch', (event) => {
+	const request = event.request;
+	if (request.method !== 'GET') return;
+	if (request.destination !== 'video' && request.destination !== 'audio') return;
+	// Cheap filter only (the homeserver may sit under a base path); isHomeserverMedia() decides
+	if (!new URL(request.url).pathname.includes(MEDIA_PATH)) return;
+
+	event.respondWith((async () => {
+		const auth = await requestAuth(event.clientId);
+		// Only ever send the token to the user's own homeserver
+		if (!auth?.token || !isHomeserverMedia(request.url, auth.homeserver)) return fetch(request);
+
+		const headers = { Authorization: `Bearer ${auth.token}` };
+		const range = request.headers.get('range');
+		if (range) headers.Range = range;
+		return fetch(request.url, { headers, mode: 'cors', credentials: 'omit' });
+	})());
+});
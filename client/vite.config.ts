@@ -39,6 +39,8 @@ export default defineConfig({
 				globPatterns: ['**/*.{js,css,html,svg,png,woff2}'],
 				// Don't cache API calls — only static assets
 				navigateFallbackDenylist: [/^\/_matrix/, /^\/_synapse/],
+				// Adds the access token to <video>/<audio> media requests (ranged streaming)
+				importScripts: ['/media-auth-sw.js'],
 			},
 		}),
 	],